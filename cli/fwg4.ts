@@ -0,0 +1,328 @@
+/**
+ * Command-line map generator
+ * Runs the headless generateWorld() pipeline and writes SVG + a world file per map,
+ * plus 16-bit heightmaps and GeoJSON on request
+ *
+ * Usage: npm run fwg4 -- generate --seed my-seed --count 10 --out maps
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { generateWorld, type ProgressCallback, type World } from '../src/utils/world';
+import {
+  DEFAULT_TERRAIN_PARAMS,
+  rangeProblem,
+  TERRAIN_PARAM_RANGES,
+  type SettingRange,
+  type TerrainParams
+} from '../src/utils/terrain';
+import { hashSeed, randomSeed } from '../src/utils/random';
+import { HEIGHTMAP_TEMPLATES, type TemplateName } from '../src/utils/templates';
+import { DEFAULT_MESH_OPTIONS, MESH_OPTION_RANGES, type MeshOptions, type PointDistribution } from '../src/utils/voronoi';
+import { worldToSVG } from '../src/utils/svg';
+import { worldToJSON } from '../src/utils/worldFile';
+import { encodePGM16, encodeRaw16, rasterizeHeights } from '../src/utils/heightmap';
+import { extentTransform, worldToGeoJSON, type CoordinateExtent } from '../src/utils/geojson';
+
+const USAGE = `Usage: fwg4 generate [options]
+
+Options:
+  --seed <string>       Seed for the first map (random if omitted)
+  --count <n>           Number of maps to generate (default 1)
+  --points <n>          Number of Voronoi cells (default 8000)
+  --width <px>          Map width (default 1000)
+  --height <px>         Map height (default 500)
+  --distribution <name> Point sampling: jittered | poisson (default ${DEFAULT_MESH_OPTIONS.distribution})
+  --relax <n>           Lloyd relaxation iterations (default ${DEFAULT_MESH_OPTIONS.relaxIterations})
+  --template <name>     Use a heightmap template instead of blobs: ${Object.keys(HEIGHTMAP_TEMPLATES).join(' | ')}
+  --blobs <n>           Number of terrain blobs (default ${DEFAULT_TERRAIN_PARAMS.numBlobs})
+  --falloff <n>         Blob falloff (default ${DEFAULT_TERRAIN_PARAMS.falloff})
+  --sharpness <n>       Terrain roughness (default ${DEFAULT_TERRAIN_PARAMS.sharpness})
+  --sea-level <n>       Sea level threshold for blob terrain (default ${DEFAULT_TERRAIN_PARAMS.seaLevel})
+  --margin <px>         Water margin at map edges (default ${DEFAULT_TERRAIN_PARAMS.waterMargin})
+  --noise-scale <n>     Noise frequency multiplier (default ${DEFAULT_TERRAIN_PARAMS.noiseScale})
+  --noise-amplitude <n> Noise strength 0-1 (default ${DEFAULT_TERRAIN_PARAMS.noiseAmplitude})
+  --octaves <n>         Noise octaves (default ${DEFAULT_TERRAIN_PARAMS.noiseOctaves})
+  --warp <n>            Domain warp strength (default ${DEFAULT_TERRAIN_PARAMS.noiseWarp})
+  --ridged              Use ridged noise
+  --river-threshold <n> Drainage area for rivers, % of map (default ${DEFAULT_TERRAIN_PARAMS.riverThreshold})
+  --no-depression-lakes Do not flood closed land depressions
+  --equator-temp <c>    Sea-level temperature at the equator (default ${DEFAULT_TERRAIN_PARAMS.equatorTemperature})
+  --pole-temp <c>       Sea-level temperature at the poles (default ${DEFAULT_TERRAIN_PARAMS.poleTemperature})
+  --lapse-rate <n>      Cooling with altitude in °C/km (default ${DEFAULT_TERRAIN_PARAMS.lapseRate})
+  --precipitation <n>   Precipitation multiplier (default ${DEFAULT_TERRAIN_PARAMS.precipitationScale})
+  --continent           Enable continent mode (default)
+  --no-continent        Disable continent mode
+  --heightmap <scale>   Also write 16-bit .pgm and .r16 heightmaps at scale × the map size
+  --geojson             Also write islands and lakes as GeoJSON (pixel coordinates)
+  --extent <w,s,e,n>    Georeference the GeoJSON to this extent (implies --geojson)
+  --out <dir>           Output directory (default ./maps)
+  --verbose             Show each generation stage and post-processing counts
+  --help                Show this message`;
+
+interface MapSummary {
+  seed: string;
+  svg: string;
+  json: string;
+  landCoverage: number;
+  lakes: number;
+  islands: number;
+  rivers: number;
+  heightmaps?: string[];
+  geojson?: string;
+}
+
+// Numeric terrain parameters holding a single value
+type ScalarParam = Exclude<keyof typeof TERRAIN_PARAM_RANGES, 'secondaryPeakHeightRange'>;
+
+interface ExtraOutputs {
+  heightmapScale: number | null;
+  geojson: boolean;
+  extent: CoordinateExtent | null;
+}
+
+function parseNumber(value: string | undefined, fallback: number, name: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parsePositiveInteger(value: string | undefined, fallback: number, name: string): number {
+  const parsed = parseNumber(value, fallback, name);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a setting and check it against the range the UI allows, so every
+ * world the CLI writes can be loaded in the app
+ */
+function parseSetting(value: string | undefined, fallback: number, name: string, range: SettingRange): number {
+  const parsed = parseNumber(value, fallback, name);
+  const problem = rangeProblem(parsed, range);
+  if (problem) throw new Error(`--${name}: ${problem}, got "${value}"`);
+  return parsed;
+}
+
+function parseExtent(value: string): CoordinateExtent {
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || !parts.every(Number.isFinite)) {
+    throw new Error(`--extent must be four numbers "west,south,east,north", got "${value}"`);
+  }
+  const [west, south, east, north] = parts;
+  if (east <= west || north <= south) {
+    throw new Error(`--extent needs east > west and north > south, got "${value}"`);
+  }
+  return [west, south, east, north];
+}
+
+/**
+ * Seeds for a batch are derived from the base seed so a whole batch
+ * can be reproduced from a single value
+ */
+function batchSeed(baseSeed: string, index: number, count: number): string {
+  return count === 1 ? baseSeed : `${baseSeed}-${index + 1}`;
+}
+
+/**
+ * Seed as it may appear in a file name: path separators and other unsafe
+ * characters become "_", so every file stays inside the output directory
+ * (summary.json keeps the real seed). Replaced seeds get a hash of the
+ * original so "a/b" and "a:b" don't overwrite each other's files
+ */
+function fileSafeSeed(seed: string): string {
+  const safe = seed.replace(/[^\w.-]+/g, '_');
+  return safe === seed ? seed : `${safe}-${hashSeed(seed).toString(36)}`;
+}
+
+function writeWorld(world: World, outDir: string, { heightmapScale, geojson, extent }: ExtraOutputs): MapSummary {
+  const baseName = `map-${fileSafeSeed(world.seed)}`;
+  const svgPath = join(outDir, `${baseName}.svg`);
+  const jsonPath = join(outDir, `${baseName}.json`);
+
+  writeFileSync(svgPath, worldToSVG(world));
+  writeFileSync(jsonPath, worldToJSON(world));
+
+  let heightmaps: string[] | undefined;
+  if (heightmapScale !== null) {
+    const raster = rasterizeHeights(world.cells, world.width, world.height, heightmapScale);
+    const heightmapName = `${baseName}-heightmap-${raster.width}x${raster.height}`;
+    heightmaps = [join(outDir, `${heightmapName}.pgm`), join(outDir, `${heightmapName}.r16`)];
+    writeFileSync(heightmaps[0], encodePGM16(raster));
+    writeFileSync(heightmaps[1], encodeRaw16(raster));
+  }
+
+  let geojsonPath: string | undefined;
+  if (geojson) {
+    geojsonPath = join(outDir, `${baseName}.geojson`);
+    const transform = extent ? extentTransform(world.width, world.height, extent) : undefined;
+    writeFileSync(geojsonPath, JSON.stringify(worldToGeoJSON(world, transform)));
+  }
+
+  return {
+    seed: world.seed,
+    svg: svgPath,
+    json: jsonPath,
+    landCoverage: world.stats.landCoverage,
+    lakes: world.stats.lakeCount,
+    islands: world.stats.islandCount,
+    rivers: world.stats.riverCount,
+    heightmaps,
+    geojson: geojsonPath
+  };
+}
+
+function runGenerate(args: string[]): void {
+  const { values } = parseArgs({
+    args,
+    options: {
+      seed: { type: 'string' },
+      count: { type: 'string' },
+      points: { type: 'string' },
+      width: { type: 'string' },
+      height: { type: 'string' },
+      distribution: { type: 'string' },
+      relax: { type: 'string' },
+      template: { type: 'string' },
+      blobs: { type: 'string' },
+      falloff: { type: 'string' },
+      sharpness: { type: 'string' },
+      'sea-level': { type: 'string' },
+      margin: { type: 'string' },
+      'noise-scale': { type: 'string' },
+      'noise-amplitude': { type: 'string' },
+      octaves: { type: 'string' },
+      warp: { type: 'string' },
+      ridged: { type: 'boolean' },
+      'river-threshold': { type: 'string' },
+      'no-depression-lakes': { type: 'boolean' },
+      'equator-temp': { type: 'string' },
+      'pole-temp': { type: 'string' },
+      'lapse-rate': { type: 'string' },
+      precipitation: { type: 'string' },
+      heightmap: { type: 'string' },
+      geojson: { type: 'boolean' },
+      extent: { type: 'string' },
+      continent: { type: 'boolean' },
+      'no-continent': { type: 'boolean' },
+      out: { type: 'string' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean' }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (values.template !== undefined && !(values.template in HEIGHTMAP_TEMPLATES)) {
+    throw new Error(`--template must be one of ${Object.keys(HEIGHTMAP_TEMPLATES).join(', ')}, got "${values.template}"`);
+  }
+
+  const parseParam = (value: string | undefined, name: string, field: ScalarParam): number =>
+    parseSetting(value, DEFAULT_TERRAIN_PARAMS[field], name, TERRAIN_PARAM_RANGES[field]);
+
+  const params: TerrainParams = {
+    ...DEFAULT_TERRAIN_PARAMS,
+    terrainMode: values.template !== undefined ? 'template' : 'blob',
+    template: (values.template as TemplateName | undefined) ?? DEFAULT_TERRAIN_PARAMS.template,
+    numBlobs: parseParam(values.blobs, 'blobs', 'numBlobs'),
+    falloff: parseParam(values.falloff, 'falloff', 'falloff'),
+    sharpness: parseParam(values.sharpness, 'sharpness', 'sharpness'),
+    seaLevel: parseParam(values['sea-level'], 'sea-level', 'seaLevel'),
+    waterMargin: parseParam(values.margin, 'margin', 'waterMargin'),
+    noiseScale: parseParam(values['noise-scale'], 'noise-scale', 'noiseScale'),
+    noiseAmplitude: parseParam(values['noise-amplitude'], 'noise-amplitude', 'noiseAmplitude'),
+    noiseOctaves: parseParam(values.octaves, 'octaves', 'noiseOctaves'),
+    noiseWarp: parseParam(values.warp, 'warp', 'noiseWarp'),
+    noiseRidged: values.ridged ?? DEFAULT_TERRAIN_PARAMS.noiseRidged,
+    riverThreshold: parseParam(values['river-threshold'], 'river-threshold', 'riverThreshold'),
+    depressionLakes: values['no-depression-lakes'] ? false : DEFAULT_TERRAIN_PARAMS.depressionLakes,
+    equatorTemperature: parseParam(values['equator-temp'], 'equator-temp', 'equatorTemperature'),
+    poleTemperature: parseParam(values['pole-temp'], 'pole-temp', 'poleTemperature'),
+    lapseRate: parseParam(values['lapse-rate'], 'lapse-rate', 'lapseRate'),
+    precipitationScale: parseParam(values.precipitation, 'precipitation', 'precipitationScale'),
+    continentMode: values['no-continent'] ? false : values.continent ?? DEFAULT_TERRAIN_PARAMS.continentMode
+  };
+
+  const distribution = values.distribution ?? DEFAULT_MESH_OPTIONS.distribution;
+  if (distribution !== 'jittered' && distribution !== 'poisson') {
+    throw new Error(`--distribution must be "jittered" or "poisson", got "${distribution}"`);
+  }
+  const meshOptions: MeshOptions = {
+    distribution: distribution as PointDistribution,
+    relaxIterations: parseSetting(values.relax, DEFAULT_MESH_OPTIONS.relaxIterations, 'relax', MESH_OPTION_RANGES.relaxIterations)
+  };
+
+  const count = parsePositiveInteger(values.count, 1, 'count');
+  const numPoints = parsePositiveInteger(values.points, 8000, 'points');
+  const width = parsePositiveInteger(values.width, 1000, 'width');
+  const height = parsePositiveInteger(values.height, 500, 'height');
+  const baseSeed = values.seed ?? randomSeed();
+  const outDir = values.out ?? 'maps';
+  const heightmapScale = values.heightmap === undefined ? null : parseNumber(values.heightmap, 1, 'heightmap');
+  if (heightmapScale !== null && heightmapScale <= 0) {
+    throw new Error(`--heightmap must be a positive scale, got "${values.heightmap}"`);
+  }
+  const extent = values.extent === undefined ? null : parseExtent(values.extent);
+  const outputs: ExtraOutputs = { heightmapScale, geojson: values.geojson === true || extent !== null, extent };
+
+  mkdirSync(outDir, { recursive: true });
+
+  const onProgress: ProgressCallback | undefined = values.verbose
+    ? ({ label, index, total }) => console.log(`  ${index + 1}/${total} ${label}...`)
+    : undefined;
+
+  const summaries: MapSummary[] = [];
+  for (let i = 0; i < count; i++) {
+    const seed = batchSeed(baseSeed, i, count);
+    const world = generateWorld({ width, height, numPoints, seed, meshOptions, params }, onProgress);
+    const summary = writeWorld(world, outDir, outputs);
+    summaries.push(summary);
+    if (values.verbose) {
+      const { cellCount, removedIslands, carvedCells, depressionLakeCells } = world.stats;
+      console.log(
+        `  ${cellCount} cells; removed ${removedIslands} tiny islands, ` +
+        `carved ${carvedCells} border cells, flooded ${depressionLakeCells} depression cells`
+      );
+    }
+    console.log(
+      `[${i + 1}/${count}] ${summary.seed}: land ${(summary.landCoverage * 100).toFixed(1)}%, ` +
+      `${summary.islands} islands, ${summary.lakes} lakes, ${summary.rivers} rivers → ${summary.svg}`
+    );
+  }
+
+  writeFileSync(join(outDir, 'summary.json'), JSON.stringify({ params, meshOptions, numPoints, width, height, maps: summaries }, null, 2));
+  console.log(`Wrote ${summaries.length} map(s) to ${outDir}`);
+}
+
+function main(argv: string[]): number {
+  const [command, ...rest] = argv;
+
+  try {
+    switch (command) {
+      case 'generate':
+        runGenerate(rest);
+        return 0;
+      case undefined:
+      case '--help':
+      case 'help':
+        console.log(USAGE);
+        return 0;
+      default:
+        console.error(`Unknown command "${command}"\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error) {
+    console.error(`fwg4: ${error instanceof Error ? error.message : error}`);
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
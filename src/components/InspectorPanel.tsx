@@ -0,0 +1,164 @@
+import React, { useMemo, useState } from 'react';
+import { featureMetrics, type Feature } from '../utils/coastline';
+import type { Cell } from '../utils/voronoi';
+
+interface InspectorPanelProps {
+  width: number;
+  height: number;
+  cells: Cell[];
+  features: Feature[];
+  inspectedCell: Cell | null; // Cell under the pointer, or the last one clicked
+  pinned: boolean; // The inspected cell was clicked rather than hovered
+  selectedFeatureId: number | null;
+  onSelectFeature: (featureId: number | null) => void;
+  onRenameFeature: (featureId: number, name: string) => void;
+}
+
+type FeatureSort = 'largest' | 'smallest' | 'id';
+
+const FEATURE_SORTS: Record<FeatureSort, string> = {
+  largest: 'Largest first',
+  smallest: 'Smallest first',
+  id: 'By id'
+};
+
+function featureLabel(feature: Feature): string {
+  return feature.name ?? `${feature.type} ${feature.id}`;
+}
+
+function featureSize(feature: Feature): number {
+  return feature.size ?? feature.cells.length;
+}
+
+/**
+ * Text field committing a new name on Enter or blur; Escape restores the old one
+ */
+const NameField: React.FC<{ name: string; onRename: (name: string) => void }> = ({ name, onRename }) => {
+  const [draft, setDraft] = useState(name);
+
+  const commit = () => {
+    const trimmed = draft.trim();
+    if (trimmed && trimmed !== name) onRename(trimmed);
+    else setDraft(name);
+  };
+
+  return (
+    <input
+      type="text"
+      className="feature-name-input"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(name);
+      }}
+    />
+  );
+};
+
+/**
+ * Details of the inspected cell plus a sortable list of features;
+ * selecting a feature highlights it on the map and shows its measurements
+ */
+export const InspectorPanel: React.FC<InspectorPanelProps> = ({
+  width,
+  height,
+  cells,
+  features,
+  inspectedCell,
+  pinned,
+  selectedFeatureId,
+  onSelectFeature,
+  onRenameFeature
+}) => {
+  const [sort, setSort] = useState<FeatureSort>('largest');
+
+  const sortedFeatures = useMemo(() => {
+    const sorted = features.slice();
+    if (sort === 'id') sorted.sort((a, b) => a.id - b.id);
+    else sorted.sort((a, b) => (featureSize(b) - featureSize(a)) * (sort === 'largest' ? 1 : -1) || a.id - b.id);
+    return sorted;
+  }, [features, sort]);
+
+  const selectedFeature = features.find(feature => feature.id === selectedFeatureId) ?? null;
+  const metrics = useMemo(
+    () => (selectedFeature ? featureMetrics(selectedFeature, cells) : null),
+    [selectedFeature, cells]
+  );
+  const cellFeature = inspectedCell ? features.find(feature => feature.id === inspectedCell.featureId) : undefined;
+
+  return (
+    <div className="param-group inspector">
+      <label>Inspector</label>
+      {inspectedCell ? (
+        <dl className="inspector-details">
+          <dt>Cell</dt>
+          <dd>#{inspectedCell.id}{pinned && ' (pinned)'}</dd>
+          <dt>Height</dt>
+          <dd>{inspectedCell.height.toFixed(3)}</dd>
+          <dt>Land</dt>
+          <dd>{inspectedCell.isLand ? 'Yes' : 'No'}</dd>
+          <dt>Coastal</dt>
+          <dd>{inspectedCell.isCoastal ? `Yes (${inspectedCell.coastalNeighborsCount ?? 0} water neighbors)` : 'No'}</dd>
+          <dt>Feature</dt>
+          <dd>
+            {cellFeature ? (
+              <button className="link-button" onClick={() => onSelectFeature(cellFeature.id)}>
+                {featureLabel(cellFeature)}
+              </button>
+            ) : '—'}
+          </dd>
+        </dl>
+      ) : (
+        <small>Hover over the map to inspect a cell; click to pin it and select its feature</small>
+      )}
+
+      {selectedFeature && metrics && (
+        <dl className="inspector-details">
+          <dt>Selected</dt>
+          <dd>{selectedFeature.type} #{selectedFeature.id}</dd>
+          <dt>Name</dt>
+          <dd>
+            <NameField
+              key={`${selectedFeature.id}:${selectedFeature.name}`}
+              name={featureLabel(selectedFeature)}
+              onRename={(name) => onRenameFeature(selectedFeature.id, name)}
+            />
+          </dd>
+          <dt>Cells</dt>
+          <dd>{selectedFeature.cells.length}</dd>
+          <dt>Area</dt>
+          <dd>{Math.round(metrics.area).toLocaleString()} px² ({((metrics.area / (width * height)) * 100).toFixed(1)}% of map)</dd>
+          <dt>Perimeter</dt>
+          <dd>{Math.round(metrics.perimeter).toLocaleString()} px</dd>
+          <dt>Touches border</dt>
+          <dd>{selectedFeature.border ? 'Yes' : 'No'}</dd>
+        </dl>
+      )}
+
+      <div className="feature-list-header">
+        <span>Features ({features.length})</span>
+        <select value={sort} onChange={(e) => setSort(e.target.value as FeatureSort)}>
+          {Object.entries(FEATURE_SORTS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <ul className="feature-list">
+        {sortedFeatures.map(feature => (
+          <li key={feature.id}>
+            <button
+              className={feature.id === selectedFeatureId ? 'current' : undefined}
+              onClick={() => onSelectFeature(feature.id === selectedFeatureId ? null : feature.id)}
+            >
+              <span className={`feature-type ${feature.type}`}>{feature.type}</span>
+              {featureLabel(feature)}
+              <span className="feature-size">{featureSize(feature)}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
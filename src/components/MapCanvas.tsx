@@ -0,0 +1,383 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { Feature } from '../utils/coastline';
+import type { River } from '../utils/hydrology';
+import type { Cell } from '../utils/voronoi';
+import { coastlinePaths, HIGHLIGHT_STYLE, riverToSVGPath, RIVER_COLOR, SHELF_STYLE } from '../utils/svg';
+import type { CoastFills, CoastlineSmoothing } from '../utils/smoothing';
+import {
+  cellExtent,
+  drawCellLayers,
+  fitView,
+  screenToMap,
+  visibleBounds,
+  zoomAt,
+  type ViewTransform
+} from '../utils/canvas';
+
+interface MapCanvasProps {
+  width: number;
+  height: number;
+  cells: Cell[];
+  fills: string[];
+  overlayFills: (string | null)[] | null;
+  coast: CoastFills | null; // Land/water fills split along the smoothed coastline
+  features: Feature[];
+  smoothing: CoastlineSmoothing;
+  selection: { cells: string; outline: string } | null; // Path data of the selected feature
+  inspectedCell: string | null; // Path data of the inspected cell
+  shelf: string | null; // Path data of the shelf edge, when shown
+  rivers: River[];
+  brushRadius: number | null; // Set while editing: left-drag paints instead of panning
+  onBrushStart: (point: [number, number]) => void;
+  onBrushMove: (point: [number, number]) => void;
+  onBrushEnd: () => void;
+  onHover: (point: [number, number] | null) => void;
+  onPick: (point: [number, number]) => void; // Click without dragging
+}
+
+// Zoom range relative to the fitted view
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 64;
+const WHEEL_ZOOM_SPEED = 0.0015; // Per pixel of wheel delta
+const WHEEL_LINE_HEIGHT = 16; // Pixels per line for wheels that report lines
+
+// The cached full-map raster is at most this many pixels on its long side
+const MAX_BASE_SIZE = 4096;
+
+// Pointer travel (CSS pixels) below which a press counts as a click rather than a pan
+const CLICK_TOLERANCE = 4;
+
+// Idle time after panning or zooming before visible cells are redrawn sharply (ms)
+const DETAIL_DELAY = 150;
+
+/**
+ * Canvas2D map view with wheel zoom, drag-to-pan and fit-to-view
+ * Level of detail: all cells are rasterized once into a cached image at the
+ * fitted resolution, which is what panning and zooming move around. When the
+ * view is zoomed past that resolution and comes to rest, only the cells in
+ * view are redrawn at screen resolution. Rivers and coastlines stay vector
+ */
+export const MapCanvas: React.FC<MapCanvasProps> = (props) => {
+  const {
+    width, height, cells, fills, overlayFills, coast, features, smoothing, selection, inspectedCell, shelf, rivers, brushRadius
+  } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [zoom, setZoom] = useState(1);
+
+  // Handlers and the draw loop read the latest props through refs
+  const propsRef = useRef(props);
+  propsRef.current = props;
+  const viewRef = useRef<ViewTransform | null>(null);
+  const fitRef = useRef<ViewTransform | null>(null);
+  const sizeRef = useRef({ width: 0, height: 0, ratio: 1 });
+  const baseRef = useRef<HTMLCanvasElement | null>(null);
+  const detailRef = useRef<{ canvas: HTMLCanvasElement; view: ViewTransform } | null>(null);
+  const dragRef = useRef<{ mode: 'pan' | 'brush'; x: number; y: number; moved: number } | null>(null);
+  const cursorRef = useRef<[number, number] | null>(null);
+  const frameRef = useRef(0);
+  const detailTimerRef = useRef(0);
+
+  const riverPaths = useMemo(() => rivers.map(river => new Path2D(riverToSVGPath(river))), [rivers]);
+  const coastlines = useMemo(() => {
+    return coastlinePaths(features, smoothing, width, height)
+      .map(({ d, stroke, strokeWidth }) => ({ path: new Path2D(d), stroke, strokeWidth }));
+  }, [features, smoothing, width, height]);
+  const highlight = useMemo(() => ({
+    cells: selection ? new Path2D(selection.cells) : null,
+    outline: selection ? new Path2D(selection.outline) : null,
+    cell: inspectedCell ? new Path2D(inspectedCell) : null
+  }), [selection, inspectedCell]);
+  const shelfPath = useMemo(() => (shelf ? new Path2D(shelf) : null), [shelf]);
+  const extent = useMemo(() => cellExtent(cells), [cells]);
+
+  const layersRef = useRef({ riverPaths, coastlines, highlight, shelfPath, extent });
+  layersRef.current = { riverPaths, coastlines, highlight, shelfPath, extent };
+
+  const draw = useCallback(() => {
+    frameRef.current = 0;
+    const canvas = canvasRef.current;
+    const view = viewRef.current;
+    const fit = fitRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !view || !fit || !ctx) return;
+
+    const { ratio } = sizeRef.current;
+    const { width, height, brushRadius } = propsRef.current;
+    const { riverPaths, coastlines, highlight, shelfPath } = layersRef.current;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(ratio * view.scale, 0, 0, ratio * view.scale, ratio * view.x, ratio * view.y);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, width, height);
+    ctx.clip();
+
+    if (baseRef.current) ctx.drawImage(baseRef.current, 0, 0, width, height);
+
+    // A sharp redraw at this zoom level still lines up after panning; the
+    // cached raster shows through wherever it doesn't reach
+    const detail = detailRef.current;
+    if (detail && detail.view.scale === view.scale) {
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.drawImage(detail.canvas, Math.round((view.x - detail.view.x) * ratio), Math.round((view.y - detail.view.y) * ratio));
+      ctx.restore();
+    }
+
+    // Lines keep their fitted on-screen width at every zoom level
+    const lineScale = fit.scale / view.scale;
+
+    if (shelfPath) {
+      ctx.strokeStyle = SHELF_STYLE.stroke;
+      ctx.lineWidth = SHELF_STYLE.strokeWidth * lineScale;
+      ctx.setLineDash(SHELF_STYLE.dash.map(length => length * lineScale));
+      ctx.stroke(shelfPath);
+      ctx.setLineDash([]);
+    }
+
+    ctx.fillStyle = RIVER_COLOR;
+    for (const path of riverPaths) ctx.fill(path);
+
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    for (const { path, stroke, strokeWidth } of coastlines) {
+      ctx.strokeStyle = stroke;
+      ctx.lineWidth = strokeWidth * lineScale;
+      ctx.stroke(path);
+    }
+
+    if (highlight.cells && highlight.outline) {
+      ctx.fillStyle = HIGHLIGHT_STYLE.fill;
+      ctx.fill(highlight.cells);
+      ctx.strokeStyle = HIGHLIGHT_STYLE.stroke;
+      ctx.lineWidth = 2 * lineScale;
+      ctx.stroke(highlight.outline);
+    }
+    if (highlight.cell) {
+      ctx.strokeStyle = HIGHLIGHT_STYLE.cellStroke;
+      ctx.lineWidth = 1.5 * lineScale;
+      ctx.stroke(highlight.cell);
+    }
+    ctx.restore();
+
+    const cursor = cursorRef.current;
+    if (brushRadius !== null && cursor) {
+      ctx.beginPath();
+      ctx.arc(cursor[0], cursor[1], brushRadius, 0, Math.PI * 2);
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = 1.5 / view.scale;
+      ctx.setLineDash([4 / view.scale, 3 / view.scale]);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+  }, []);
+
+  const requestDraw = useCallback(() => {
+    if (!frameRef.current) frameRef.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  // Once the view settles, redraw the visible cells if the cached raster is too coarse
+  const scheduleDetail = useCallback(() => {
+    window.clearTimeout(detailTimerRef.current);
+    detailTimerRef.current = window.setTimeout(() => {
+      const canvas = canvasRef.current;
+      const view = viewRef.current;
+      const base = baseRef.current;
+      if (!canvas || !view || !base) return;
+
+      const { width, cells, fills, overlayFills, coast } = propsRef.current;
+      const { ratio, width: viewWidth, height: viewHeight } = sizeRef.current;
+      if (view.scale * ratio <= (base.width / width) * 1.05) {
+        detailRef.current = null;
+        return;
+      }
+
+      const detail = document.createElement('canvas');
+      detail.width = canvas.width;
+      detail.height = canvas.height;
+      const ctx = detail.getContext('2d');
+      if (!ctx) return;
+      ctx.setTransform(ratio * view.scale, 0, 0, ratio * view.scale, ratio * view.x, ratio * view.y);
+      drawCellLayers(
+        ctx,
+        width,
+        propsRef.current.height,
+        cells,
+        fills,
+        overlayFills,
+        coast,
+        visibleBounds(view, viewWidth, viewHeight),
+        layersRef.current.extent
+      );
+
+      detailRef.current = { canvas: detail, view: { ...view } };
+      requestDraw();
+    }, DETAIL_DELAY);
+  }, [requestDraw]);
+
+  const rebuildBase = useCallback(() => {
+    const fit = fitRef.current;
+    if (!fit) return;
+
+    const { width, height, cells, fills, overlayFills, coast } = propsRef.current;
+    const resolution = Math.min(fit.scale * sizeRef.current.ratio, MAX_BASE_SIZE / Math.max(width, height));
+    const base = baseRef.current ?? document.createElement('canvas');
+    base.width = Math.ceil(width * resolution);
+    base.height = Math.ceil(height * resolution);
+    const ctx = base.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(resolution, 0, 0, resolution, 0, 0);
+    drawCellLayers(ctx, width, height, cells, fills, overlayFills, coast);
+
+    baseRef.current = base;
+    detailRef.current = null;
+    scheduleDetail();
+    requestDraw();
+  }, [scheduleDetail, requestDraw]);
+
+  const setView = useCallback((view: ViewTransform) => {
+    viewRef.current = view;
+    if (fitRef.current) setZoom(view.scale / fitRef.current.scale);
+    scheduleDetail();
+    requestDraw();
+  }, [scheduleDetail, requestDraw]);
+
+  const fitToView = useCallback(() => {
+    if (fitRef.current) setView(fitRef.current);
+  }, [setView]);
+
+  // Size the backing store to the element and refit whenever the layout changes
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      const ratio = window.devicePixelRatio || 1;
+      const { clientWidth, clientHeight } = canvas;
+      if (clientWidth === 0 || clientHeight === 0) return;
+
+      canvas.width = Math.round(clientWidth * ratio);
+      canvas.height = Math.round(clientHeight * ratio);
+      sizeRef.current = { width: clientWidth, height: clientHeight, ratio };
+      fitRef.current = fitView(width, height, clientWidth, clientHeight);
+      viewRef.current = fitRef.current;
+      setZoom(1);
+      rebuildBase();
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [width, height, rebuildBase]);
+
+  // Cell colors changed: re-rasterize
+  useEffect(() => {
+    rebuildBase();
+  }, [cells, fills, overlayFills, coast, rebuildBase]);
+
+  // Vector layers and the brush are drawn every frame
+  useEffect(() => {
+    requestDraw();
+  }, [riverPaths, coastlines, highlight, shelfPath, brushRadius, requestDraw]);
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      const view = viewRef.current;
+      const fit = fitRef.current;
+      if (!view || !fit) return;
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const delta = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * WHEEL_LINE_HEIGHT : event.deltaY;
+      setView(zoomAt(
+        view,
+        event.clientX - rect.left,
+        event.clientY - rect.top,
+        Math.exp(-delta * WHEEL_ZOOM_SPEED),
+        fit.scale * MIN_ZOOM,
+        fit.scale * MAX_ZOOM
+      ));
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, [setView]);
+
+  useEffect(() => () => {
+    cancelAnimationFrame(frameRef.current);
+    window.clearTimeout(detailTimerRef.current);
+  }, []);
+
+  const toMapPoint = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] | null => {
+    const view = viewRef.current;
+    if (!view) return null;
+    const rect = event.currentTarget.getBoundingClientRect();
+    return screenToMap(view, event.clientX - rect.left, event.clientY - rect.top);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toMapPoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    // While editing, the left button paints and the other buttons pan
+    const mode = brushRadius !== null && event.button === 0 ? 'brush' : 'pan';
+    dragRef.current = { mode, x: event.clientX, y: event.clientY, moved: 0 };
+    if (mode === 'brush') props.onBrushStart(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toMapPoint(event);
+    cursorRef.current = point;
+    props.onHover(point);
+
+    const drag = dragRef.current;
+    const view = viewRef.current;
+    if (drag?.mode === 'pan' && view) {
+      setView({ ...view, x: view.x + event.clientX - drag.x, y: view.y + event.clientY - drag.y });
+      drag.moved += Math.hypot(event.clientX - drag.x, event.clientY - drag.y);
+      drag.x = event.clientX;
+      drag.y = event.clientY;
+    } else if (drag?.mode === 'brush' && point) {
+      props.onBrushMove(point);
+    }
+    if (brushRadius !== null) requestDraw();
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === 'brush') {
+      props.onBrushEnd();
+    } else if (drag && drag.moved < CLICK_TOLERANCE && event.button === 0 && event.type === 'pointerup') {
+      const point = toMapPoint(event);
+      if (point) props.onPick(point);
+    }
+  };
+
+  return (
+    <div className="map-canvas">
+      <canvas
+        ref={canvasRef}
+        className={brushRadius !== null ? 'editing' : undefined}
+        style={{ aspectRatio: `${width} / ${height}`, maxWidth: width }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => {
+          cursorRef.current = null;
+          props.onHover(null);
+          requestDraw();
+        }}
+        onContextMenu={(e) => e.preventDefault()}
+      />
+      <div className="canvas-controls">
+        <span>{Math.round(zoom * 100)}%</span>
+        <button onClick={fitToView} title="Show the whole map">Fit</button>
+      </div>
+    </div>
+  );
+};
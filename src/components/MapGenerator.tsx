@@ -1,328 +1,1371 @@
-import React, { useState, useCallback, useMemo } from 'react';
-import { generateVoronoiMesh } from '../utils/voronoi';
-import { generateTerrain, applySeaLevel, type TerrainParams } from '../utils/terrain';
-import { applyColorsToCells } from '../utils/color';
-import { 
-  findCoastalEdges, 
-  markCoastalCells, 
-  labelFeatures, 
-  buildCoastlinePaths, 
-  boundaryToSVGPath,
-  type Feature 
-} from '../utils/coastline';
-import type { Cell } from '../utils/voronoi';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import {
+  DEFAULT_TERRAIN_PARAMS,
+  effectiveSeaLevel,
+  TERRAIN_PARAM_RANGES,
+  type SettingRange,
+  type TerrainMode,
+  type TerrainParams
+} from '../utils/terrain';
+import { HEIGHTMAP_TEMPLATES, type TemplateName } from '../utils/templates';
+import { randomSeed } from '../utils/random';
+import { boundaryToSVGPath, traceCellOutline, type Feature } from '../utils/coastline';
+import type { River } from '../utils/hydrology';
+import { refreshWorld, type GenerationProgress, type World, type WorldOptions } from '../utils/world';
+import { loadWorldFile, worldFromFile, worldToJSON } from '../utils/worldFile';
+import { decodeShareLink, shareLinkURL } from '../utils/shareLink';
+import {
+  BUILTIN_PRESETS,
+  loadUserPresets,
+  mergePresets,
+  parsePresetFile,
+  presetsToJSON,
+  sameParams,
+  saveUserPresets,
+  type BuiltinPresetId,
+  type ParamPreset
+} from '../utils/presets';
+import {
+  EMPTY_HISTORY,
+  generatedMap,
+  recordHistory,
+  snapshotMap,
+  type MapHistory,
+  type MapSettings,
+  type MapSource
+} from '../utils/history';
+import {
+  generateWorldInWorker,
+  GenerationCancelledError,
+  type GenerationTask
+} from '../workers/worldWorkerClient';
+import {
+  coastlinePaths,
+  HIGHLIGHT_STYLE,
+  polygonToSVGPath,
+  riverToSVGPath,
+  RIVER_COLOR,
+  SHELF_STYLE,
+  worldToSVG
+} from '../utils/svg';
+import { encodePGM16, encodeRaw16, rasterizeHeights } from '../utils/heightmap';
+import { downloadBlob, heightRasterToPNG, svgToPNG } from '../utils/imageExport';
+import { extentTransform, worldToGeoJSON, type CoordinateExtent } from '../utils/geojson';
+import {
+  coastFills,
+  DEFAULT_COASTLINE_SMOOTHING,
+  landShapePath,
+  SMOOTHING_METHODS,
+  type CoastlineSmoothing,
+  type SmoothingMethod
+} from '../utils/smoothing';
+import { precipitationToColor, temperatureToColor } from '../utils/color';
+import { seaSurfaceHeight, shelfOutlinePath } from '../utils/bathymetry';
+import { BIOMES, type Biome } from '../utils/biomes';
+import {
+  DEFAULT_MESH_OPTIONS,
+  findCell,
+  MESH_OPTION_RANGES,
+  NUM_POINTS_RANGE,
+  type Cell,
+  type MeshOptions,
+  type PointDistribution
+} from '../utils/voronoi';
+import { MapCanvas } from './MapCanvas';
+import { InspectorPanel } from './InspectorPanel';
+import {
+  applyBrush,
+  beginStroke,
+  BRUSH_TOOLS,
+  DEFAULT_BRUSH,
+  type BrushSettings,
+  type BrushStroke,
+  type BrushTool
+} from '../utils/brush';
 
 interface MapGeneratorProps {
   width: number;
   height: number;
 }
 
-const DEFAULT_PARAMS: TerrainParams = {
-  numBlobs: 1, // Single blob for one big continent instead of two circles
-  mainPeakHeight: 1.0,
-  secondaryPeakHeightRange: [0.3, 0.7],
-  falloff: 2.0, // Reduced from 2.8 for more moderate continental generation
-  sharpness: 0.1,
-  seaLevel: 0.15, // Reduced from 0.2 to ensure more land appears
-  continentMode: true, // Enable continental generation by default
-  waterMargin: 50 // New parameter for edge buffer
-};
+type ClimateOverlay = 'none' | 'temperature' | 'precipitation';
+type RenderMode = 'height' | 'biome';
+type Renderer = 'svg' | 'canvas';
+type ImageExport = 'svg' | 'png' | 'heightmap' | 'raw' | 'pgm';
+
+// Multipliers of the map size offered for PNG and heightmap exports
+const EXPORT_SCALES = [1, 2, 4];
+
+// Whole-globe extent in degrees; matches the default 2:1 map
+const DEFAULT_GEO_EXTENT: CoordinateExtent = [-180, -90, 180, 90];
+const GEO_EXTENT_LABELS = ['West', 'South', 'East', 'North'];
+
+// One DOM element per cell gets sluggish past this size; larger maps always use the canvas
+const SVG_CELL_LIMIT = 20000;
+
+// Stable empty layers until the first world arrives
+const NO_CELLS: Cell[] = [];
+const NO_FEATURES: Feature[] = [];
+const NO_RIVERS: River[] = [];
+
+// Cell outlines never change while editing, only their fills do, so each
+// polygon's path data is built once
+const polygonPaths = new WeakMap<Cell['polygon'], string>();
+
+function cellPathData(cell: Cell): string | null {
+  if (!cell.polygon || cell.polygon.length < 3) return null;
+  let pathData = polygonPaths.get(cell.polygon);
+  if (pathData === undefined) {
+    pathData = polygonToSVGPath(cell.polygon);
+    polygonPaths.set(cell.polygon, pathData);
+  }
+  return pathData;
+}
+
+// Slider bounds are the ranges share links and saved files are checked against
+function sliderRange({ min, max, step }: SettingRange): Pick<SettingRange, 'min' | 'max' | 'step'> {
+  return { min, max, step };
+}
+
+/**
+ * History label for a settings change, e.g. "Sea level: 0.25"
+ */
+function describeChange(changes: object): string {
+  return Object.entries(changes)
+    .map(([key, value]) => {
+      const name = key.replace(/[A-Z]/g, letter => ` ${letter.toLowerCase()}`);
+      const shown = typeof value === 'number' ? String(Number(value.toFixed(2)))
+        : typeof value === 'boolean' ? (value ? 'on' : 'off')
+        : String(value);
+      return `${name[0].toUpperCase()}${name.slice(1)}: ${shown}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Settings from a shared link in the address bar, read once on load
+ */
+function readSharedSettings(): { settings: MapSettings | null; error: string | null } {
+  try {
+    return { settings: decodeShareLink(window.location.hash), error: null };
+  } catch (error) {
+    return { settings: null, error: `Could not read the shared link: ${error instanceof Error ? error.message : error}` };
+  }
+}
 
 export const MapGenerator: React.FC<MapGeneratorProps> = ({ width, height }) => {
-  const [params, setParams] = useState<TerrainParams>(DEFAULT_PARAMS);
-  const [numPoints, setNumPoints] = useState(8000);
-  const [cells, setCells] = useState<Cell[]>([]);
-  const [features, setFeatures] = useState<Feature[]>([]);
+  const [shared] = useState(readSharedSettings);
+  const [params, setParams] = useState<TerrainParams>(shared.settings?.params ?? DEFAULT_TERRAIN_PARAMS);
+  const [numPoints, setNumPoints] = useState(shared.settings?.numPoints ?? 8000);
+  const [meshOptions, setMeshOptions] = useState<MeshOptions>(shared.settings?.meshOptions ?? DEFAULT_MESH_OPTIONS);
+  const [seed, setSeed] = useState(() => shared.settings?.seed ?? randomSeed());
+  const [world, setWorld] = useState<World | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(shared.error);
+  const [linkStatus, setLinkStatus] = useState<string | null>(null);
+  const [userPresets, setUserPresets] = useState<ParamPreset[]>(() => loadUserPresets());
+  const [overlay, setOverlay] = useState<ClimateOverlay>('none');
+  const [renderMode, setRenderMode] = useState<RenderMode>('height');
+  const [smoothing, setSmoothing] = useState<CoastlineSmoothing>(DEFAULT_COASTLINE_SMOOTHING);
+  const [showShelf, setShowShelf] = useState(false);
+  const [renderer, setRenderer] = useState<Renderer>('svg');
+  const [exportScale, setExportScale] = useState(1);
+  const [georeference, setGeoreference] = useState(false);
+  const [geoExtent, setGeoExtent] = useState<CoordinateExtent>(DEFAULT_GEO_EXTENT);
+  const [editMode, setEditMode] = useState(false);
+  const [brush, setBrush] = useState<BrushSettings>(DEFAULT_BRUSH);
+  const [brushCursor, setBrushCursor] = useState<[number, number] | null>(null);
+  const [hoveredCellId, setHoveredCellId] = useState<number | null>(null);
+  const [pinnedCellId, setPinnedCellId] = useState<number | null>(null);
+  const [selectedFeatureId, setSelectedFeatureId] = useState<number | null>(null);
+  const [history, setHistory] = useState<MapHistory>(EMPTY_HISTORY);
+
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const taskRef = useRef<GenerationTask | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const strokeRef = useRef<BrushStroke | null>(null);
+  // Latest world for pointer handlers, ahead of the next render during fast drags
+  const worldRef = useRef(world);
+  worldRef.current = world;
+  // Source of the map on screen; entries recorded now point at it
+  const mapRef = useRef<MapSource | null>(null);
 
-  const generateMap = useCallback(() => {
+  const settings: MapSettings = useMemo(
+    () => ({ seed, numPoints, meshOptions, params }),
+    [seed, numPoints, meshOptions, params]
+  );
+
+  const cells = world?.cells ?? NO_CELLS;
+  const features = world?.features ?? NO_FEATURES;
+  const rivers = world?.rivers ?? NO_RIVERS;
+  const activeRenderer: Renderer = cells.length > SVG_CELL_LIMIT ? 'canvas' : renderer;
+
+  // Replace the map; pinned cells and selections referred to the old one
+  const showWorld = useCallback((next: World) => {
+    setWorld(next);
+    setPinnedCellId(null);
+    setSelectedFeatureId(null);
+  }, []);
+
+  const cancelGeneration = useCallback(() => {
+    if (!taskRef.current) return;
+    taskRef.current.cancel();
+    taskRef.current = null;
+    setIsGenerating(false);
+    setProgress(null);
+  }, []);
+
+  const runGeneration = useCallback((options: WorldOptions, onDone: (world: World) => void) => {
+    // Only one run at a time: a new request supersedes any in-flight one
+    taskRef.current?.cancel();
     setIsGenerating(true);
-    
-    // Use setTimeout to allow UI to update before heavy computation
-    setTimeout(() => {
-      try {
-        console.log('Starting map generation...');
-        
-        // Generate Voronoi mesh
-        console.log('Generating Voronoi mesh...');
-        const mesh = generateVoronoiMesh(width, height, numPoints);
-        console.log('Voronoi mesh generated:', mesh.cells.length, 'cells');
-        
-        // Generate terrain
-        console.log('Generating terrain...');
-        const terrainResult = generateTerrain(mesh, params, width, height);
-        console.log('Terrain generated');
-        
-        // Apply sea level and classify land/water
-        console.log('Applying sea level...');
-        applySeaLevel(terrainResult.cells, params.seaLevel, params.continentMode);
-        console.log('Sea level applied');
-        
-        // Generate coastlines
-        console.log('Generating coastlines...');
-        markCoastalCells(terrainResult.cells);
-        const coastalSegments = findCoastalEdges(terrainResult.cells, width, height);
-        console.log('Found', coastalSegments.length, 'coastal segments');
-        
-        const generatedFeatures = labelFeatures(terrainResult.cells, width, height);
-        console.log('Labeled features:', generatedFeatures.length);
-        
-        // Post-process: Remove tiny islands (less than 1% of total cells)
-        const totalCells = terrainResult.cells.length;
-        const MIN_ISLAND_CELLS = Math.floor(totalCells * 0.01); // 1% of map
-        let removedIslands = 0;
-        
-        for (const feature of generatedFeatures) {
-          if (feature.type === 'island' && !feature.border && feature.cells.length < MIN_ISLAND_CELLS) {
-            // Too small to count as island → flood-fill those cells as water
-            for (const cellId of feature.cells) {
-              const cell = terrainResult.cells.find(c => c.id === cellId);
-              if (cell) {
-                cell.isLand = false;
-                cell.height = 0;
-              }
-            }
-            removedIslands++;
-          }
+    setProgress(null);
+
+    const task = generateWorldInWorker(options, setProgress);
+    taskRef.current = task;
+
+    task.promise
+      .then(onDone)
+      .catch(error => {
+        if (!(error instanceof GenerationCancelledError)) {
+          console.error('Error generating map:', error);
         }
-        
-        if (removedIslands > 0) {
-          console.log(`🧹 Removed ${removedIslands} tiny islands (less than ${MIN_ISLAND_CELLS} cells each)`);
-          
-          // Re-run feature labeling after removing tiny islands
-          const cleanedFeatures = labelFeatures(terrainResult.cells, width, height);
-          console.log(`Relabeled features: ${cleanedFeatures.length} (was ${generatedFeatures.length})`);
-          
-          buildCoastlinePaths(coastalSegments, cleanedFeatures, terrainResult.cells);
-          setFeatures(cleanedFeatures);
-        } else {
-          buildCoastlinePaths(coastalSegments, generatedFeatures, terrainResult.cells);
-          setFeatures(generatedFeatures);
+      })
+      .finally(() => {
+        if (taskRef.current === task) {
+          taskRef.current = null;
+          setIsGenerating(false);
+          setProgress(null);
         }
-        
-        // Border carving: Carve out water border after coastline computation
-        // This ensures coastlines are computed from true land geometry
-        let carvedCount = 0;
-        terrainResult.cells.forEach(cell => {
-          const [cx, cy] = cell.centroid;
-          if (
-            cx < params.waterMargin ||
-            cx > width - params.waterMargin ||
-            cy < params.waterMargin ||
-            cy > height - params.waterMargin
-          ) {
-            if (cell.isLand) {
-              cell.isLand = false;
-              cell.height = 0;
-              carvedCount++;
-            }
-          }
+      });
+  }, []);
+
+  const generateMap = useCallback((mapSeed: string = seed) => {
+    const options: WorldOptions = { width, height, numPoints, seed: mapSeed, meshOptions, params };
+    runGeneration(options, generated => {
+      const map = generatedMap(options);
+      mapRef.current = map;
+      showWorld(generated);
+      setHistory(prev => recordHistory(prev, `Generated ${mapSeed}`, { ...settings, seed: mapSeed }, map));
+    });
+  }, [width, height, numPoints, meshOptions, params, seed, settings, runGeneration, showWorld]);
+
+  // Settings changes are undoable on their own; a slider drag merges into one entry
+  const recordSettings = useCallback((label: string, mergeKey: string, next: MapSettings) => {
+    setHistory(prev => recordHistory(prev, label, next, mapRef.current, mergeKey));
+  }, []);
+
+  // Changing a parameter mid-generation cancels the now-stale run
+  const updateParams = useCallback((changes: Partial<TerrainParams>) => {
+    cancelGeneration();
+    const next = { ...params, ...changes };
+    setParams(next);
+    recordSettings(describeChange(changes), `params:${Object.keys(changes).join(',')}`, { ...settings, params: next });
+  }, [cancelGeneration, params, settings, recordSettings]);
+
+  // Presets replace every terrain parameter; picking several in a row is one entry
+  const applyPreset = useCallback((preset: ParamPreset) => {
+    cancelGeneration();
+    setParams(preset.params);
+    recordSettings(`Preset: ${preset.name}`, 'preset', { ...settings, params: preset.params });
+  }, [cancelGeneration, settings, recordSettings]);
+
+  // Selector value of the preset matching the current parameters; saved presets win ties
+  const activePresetKey = useMemo(() => {
+    const saved = userPresets.findIndex(preset => sameParams(preset.params, params));
+    if (saved >= 0) return `user:${saved}`;
+    const builtin = (Object.keys(BUILTIN_PRESETS) as BuiltinPresetId[]).find(id => sameParams(BUILTIN_PRESETS[id].params, params));
+    return builtin ? `builtin:${builtin}` : '';
+  }, [userPresets, params]);
+
+  const storeUserPresets = useCallback((presets: ParamPreset[]) => {
+    setUserPresets(presets);
+    try {
+      saveUserPresets(presets);
+    } catch (error) {
+      setFileError(`Could not save presets in this browser: ${error instanceof Error ? error.message : error}`);
+    }
+  }, []);
+
+  const savePreset = useCallback(() => {
+    const current = activePresetKey.startsWith('user:') ? userPresets[Number(activePresetKey.slice(5))] : undefined;
+    const name = window.prompt('Save the current terrain parameters as', current?.name ?? '')?.trim();
+    if (!name) return;
+    if (userPresets.some(preset => preset.name === name) && !window.confirm(`Replace the preset "${name}"?`)) return;
+    storeUserPresets(mergePresets(userPresets, [{ name, params }]));
+  }, [activePresetKey, userPresets, params, storeUserPresets]);
+
+  const deletePreset = useCallback(() => {
+    if (!activePresetKey.startsWith('user:')) return;
+    const index = Number(activePresetKey.slice(5));
+    storeUserPresets(userPresets.filter((_, i) => i !== index));
+  }, [activePresetKey, userPresets, storeUserPresets]);
+
+  const exportPresets = useCallback(() => {
+    downloadBlob(new Blob([presetsToJSON(userPresets)], { type: 'application/json' }), 'fwg4-presets.json');
+  }, [userPresets]);
+
+  const importPresets = useCallback(async (file: File) => {
+    try {
+      storeUserPresets(mergePresets(userPresets, parsePresetFile(await file.text())));
+      setFileError(null);
+    } catch (error) {
+      setFileError(`Could not load "${file.name}": ${error instanceof Error ? error.message : error}`);
+    }
+  }, [userPresets, storeUserPresets]);
+
+  const updateNumPoints = useCallback((value: number) => {
+    cancelGeneration();
+    setNumPoints(value);
+    recordSettings(describeChange({ points: value }), 'numPoints', { ...settings, numPoints: value });
+  }, [cancelGeneration, settings, recordSettings]);
+
+  const updateMeshOptions = useCallback((changes: Partial<MeshOptions>) => {
+    cancelGeneration();
+    const next = { ...meshOptions, ...changes };
+    setMeshOptions(next);
+    recordSettings(describeChange(changes), `mesh:${Object.keys(changes).join(',')}`, { ...settings, meshOptions: next });
+  }, [cancelGeneration, meshOptions, settings, recordSettings]);
+
+  const updateSeed = useCallback((value: string) => {
+    cancelGeneration();
+    setSeed(value);
+    recordSettings(describeChange({ seed: value }), 'seed', { ...settings, seed: value });
+  }, [cancelGeneration, settings, recordSettings]);
+
+  // Show an entry's settings and map; generated maps are rebuilt from their options
+  const jumpTo = useCallback((index: number) => {
+    const entry = history.entries[index];
+    if (!entry || index === history.index || strokeRef.current) return;
+    cancelGeneration();
+
+    const { settings: target, map } = entry;
+    setSeed(target.seed);
+    setNumPoints(target.numPoints);
+    setMeshOptions(target.meshOptions);
+    setParams(target.params);
+
+    if (map && map !== mapRef.current) {
+      if (map.kind === 'snapshot') {
+        mapRef.current = map;
+        showWorld(worldFromFile(map.file));
+      } else {
+        runGeneration(map.options, generated => {
+          mapRef.current = map;
+          showWorld(generated);
         });
-        
-        if (carvedCount > 0) {
-          console.log(`🌊 Border carving: ${carvedCount} cells forced to water within ${params.waterMargin}px margin`);
-        }
-        
-        // Recompute coastlines & features on the carved terrain
-        markCoastalCells(terrainResult.cells);
-        const freshSegments = findCoastalEdges(terrainResult.cells, width, height);
-        const freshFeatures = labelFeatures(terrainResult.cells, width, height);
-        buildCoastlinePaths(freshSegments, freshFeatures, terrainResult.cells);
-        setFeatures(freshFeatures);
-        
-        // Apply colors
-        console.log('Applying colors...');
-        applyColorsToCells(terrainResult.cells, params.seaLevel);
-        console.log('Colors applied');
-        
-        setCells(terrainResult.cells);
-        console.log('Map generation complete!');
-      } catch (error) {
-        console.error('Error generating map:', error);
-      } finally {
-        setIsGenerating(false);
       }
-    }, 0);
-  }, [width, height, numPoints, params]);
+    }
+    setHistory(prev => ({ ...prev, index }));
+  }, [history, cancelGeneration, runGeneration, showWorld]);
+
+  const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index]);
+  const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index]);
+
+  const exportWorld = useCallback(() => {
+    if (!world) return;
+    downloadBlob(new Blob([worldToJSON(world)], { type: 'application/json' }), `fwg4-${world.seed}.json`);
+  }, [world]);
+
+  // The link regenerates the map on screen from its own settings, not from unapplied slider changes
+  const copyLink = useCallback(async () => {
+    if (!world) return;
+    const { seed, numPoints, meshOptions, params } = world;
+    let url: string;
+    try {
+      url = shareLinkURL(window.location.href, { seed, numPoints, meshOptions, params });
+    } catch (error) {
+      setLinkStatus(null);
+      setFileError(`Could not copy a link: this map's settings are outside what a link can hold (${error instanceof Error ? error.message : error})`);
+      return;
+    }
+    window.history.replaceState(null, '', url);
+    setFileError(null);
+
+    try {
+      await navigator.clipboard.writeText(url);
+      // Snapshots are edited or imported maps; a link only carries the settings
+      setLinkStatus(mapRef.current?.kind === 'snapshot'
+        ? 'Link copied. It regenerates the map from its seed, so terrain edits are not included'
+        : 'Link copied');
+    } catch {
+      window.prompt('Copy this link', url);
+    }
+  }, [world]);
+
+  const importWorld = useCallback(async (file: File) => {
+    cancelGeneration();
+    try {
+      const loaded = loadWorldFile(await file.text());
+      if (loaded.width !== width || loaded.height !== height) {
+        throw new Error(`World is ${loaded.width}×${loaded.height} but the map view is ${width}×${height}`);
+      }
+      // Adopt the saved settings so regenerating reproduces the file's map
+      setSeed(loaded.seed);
+      setNumPoints(loaded.numPoints);
+      setMeshOptions(loaded.meshOptions);
+      setParams(loaded.params);
+      showWorld(loaded);
+      setFileError(null);
+
+      const map = snapshotMap(loaded);
+      mapRef.current = map;
+      const { seed, numPoints, meshOptions, params } = loaded;
+      setHistory(prev => recordHistory(prev, `Imported ${file.name}`, { seed, numPoints, meshOptions, params }, map));
+    } catch (error) {
+      setFileError(`Could not load "${file.name}": ${error instanceof Error ? error.message : error}`);
+    }
+  }, [cancelGeneration, showWorld, width, height]);
+
+  // Client coordinates → map coordinates, accounting for the SVG's scaling
+  const toMapPoint = useCallback((event: React.PointerEvent): [number, number] | null => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix) return null;
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+    return [point.x, point.y];
+  }, []);
+
+  // Hover inspects the cell under the pointer; the walk starts from the previous one
+  const inspectAt = useCallback((point: [number, number] | null) => {
+    const cells = worldRef.current?.cells;
+    if (!point || !cells) {
+      setHoveredCellId(null);
+      return;
+    }
+    setHoveredCellId(prev => findCell(cells, point[0], point[1], prev ?? 0)?.id ?? null);
+  }, []);
+
+  // Clicking pins a cell and selects its feature
+  const pickAt = useCallback((point: [number, number]) => {
+    const cell = worldRef.current && findCell(worldRef.current.cells, point[0], point[1]);
+    if (!cell) return;
+    setPinnedCellId(cell.id);
+    setSelectedFeatureId(cell.featureId ?? null);
+  }, []);
+
+  // A rename is an edit like any other: the renamed map becomes a snapshot entry
+  const renameFeature = useCallback((featureId: number, name: string) => {
+    const current = worldRef.current;
+    const feature = current?.features.find(f => f.id === featureId);
+    if (!current || !feature || feature.name === name) return;
+
+    const renamed = { ...current, features: current.features.map(f => (f.id === featureId ? { ...f, name } : f)) };
+    worldRef.current = renamed;
+    setWorld(renamed);
+
+    const map = snapshotMap(renamed);
+    mapRef.current = map;
+    setHistory(prev => recordHistory(prev, `Renamed ${feature.name ?? `${feature.type} ${feature.id}`} to ${name}`, settings, map));
+  }, [settings]);
+
+  const paint = useCallback((x: number, y: number) => {
+    const current = worldRef.current;
+    if (!current || !strokeRef.current) return;
+    const next = applyBrush(current, x, y, brush, strokeRef.current);
+    worldRef.current = next;
+    setWorld(next);
+  }, [brush]);
+
+  const canEdit = editMode && !isGenerating && world !== null;
+
+  const startStroke = useCallback((point: [number, number]) => {
+    if (!canEdit || !worldRef.current) return;
+    strokeRef.current = beginStroke(worldRef.current, point[0], point[1]);
+    paint(point[0], point[1]);
+  }, [canEdit, paint]);
+
+  const continueStroke = useCallback((point: [number, number]) => {
+    if (strokeRef.current) paint(point[0], point[1]);
+  }, [paint]);
+
+  // Climate, rivers and biomes follow the new terrain once the stroke ends
+  const endStroke = useCallback(() => {
+    if (!strokeRef.current) return;
+    strokeRef.current = null;
+    if (worldRef.current) {
+      const refreshed = refreshWorld(worldRef.current);
+      worldRef.current = refreshed;
+      setWorld(refreshed);
+
+      const map = snapshotMap(refreshed);
+      mapRef.current = map;
+      setHistory(prev => recordHistory(prev, `${BRUSH_TOOLS[brush.tool]} stroke`, settings, map));
+    }
+  }, [brush.tool, settings]);
+
+  const handlePointerDown = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toMapPoint(event);
+    if (!point || event.button !== 0) return;
+    if (!canEdit) {
+      pickAt(point);
+      return;
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+    startStroke(point);
+  }, [canEdit, toMapPoint, startStroke, pickAt]);
+
+  const handlePointerMove = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    const point = toMapPoint(event);
+    inspectAt(point);
+    if (!editMode) return;
+    setBrushCursor(point);
+    if (point) continueStroke(point);
+  }, [editMode, toMapPoint, continueStroke, inspectAt]);
+
+  const rollSeed = useCallback(() => {
+    const newSeed = randomSeed();
+    setSeed(newSeed);
+    generateMap(newSeed);
+  }, [generateMap]);
 
   // Generate initial map on mount
   React.useEffect(() => {
     generateMap();
   }, []);
 
-  const svgPaths = useMemo(() => {
+  // Stop any running worker when the component unmounts
+  React.useEffect(() => () => taskRef.current?.cancel(), []);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  React.useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      const target = event.target as HTMLElement;
+      if (target instanceof HTMLInputElement && target.type === 'text') return;
+      event.preventDefault();
+      if (event.shiftKey) redo();
+      else undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  const cellFills = useMemo(() => {
+    return cells.map(cell =>
+      // Water keeps its height/lake coloring in biome mode
+      renderMode === 'biome' && cell.isLand && cell.biome
+        ? BIOMES[cell.biome].color
+        : cell.color || '#000'
+    );
+  }, [cells, renderMode]);
+
+  // Display-only layer: switching overlays never regenerates the map
+  const overlayFills = useMemo(() => {
+    if (overlay === 'none') return null;
+
     return cells.map(cell => {
-      if (!cell.polygon || cell.polygon.length < 3) return null;
-      
-      const pathData = cell.polygon
-        .map((point, index) => `${index === 0 ? 'M' : 'L'} ${point[0]} ${point[1]}`)
-        .join(' ') + ' Z';
+      // Rainfall only matters on land; temperature is shown for the sea as well
+      if (overlay === 'precipitation' && !cell.isLand) return null;
+      return overlay === 'temperature'
+        ? temperatureToColor(cell.temperature ?? 0)
+        : precipitationToColor(cell.precipitation ?? 0);
+    });
+  }, [cells, overlay]);
+
+  // Smoothed coastlines: cells are drawn with their water-side colors, then
+  // their land-side colors clipped to the same curve the coastline follows
+  const landShape = useMemo(
+    () => landShapePath(features, smoothing, width, height),
+    [features, smoothing, width, height]
+  );
+  const coast = useMemo(
+    () => (landShape ? coastFills(cells, cellFills, landShape) : null),
+    [cells, cellFills, landShape]
+  );
+
+  // Edge of the continental shelf, traced only while it is shown
+  const shelf = useMemo(() => {
+    if (!showShelf || !world) return null;
+    return shelfOutlinePath(cells, features, seaSurfaceHeight(cells, effectiveSeaLevel(world.params)), width, height) || null;
+  }, [showShelf, world, cells, features, width, height]);
+
+  const cellLayer = useCallback((fills: (string | null)[], layer: string) => {
+    return cells.map(cell => {
+      const pathData = cellPathData(cell);
+      if (!pathData || !fills[cell.id]) return null;
       
       return (
         <path
-          key={cell.id}
+          key={`${layer}-${cell.id}`}
           d={pathData}
-          fill={cell.color || '#000'}
+          fill={fills[cell.id]!}
           stroke="none"
         />
       );
     }).filter(Boolean);
-  }, [cells, width, height]);
-
-  const coastlinePaths = useMemo(() => {
-    return features
-      .filter(feature => feature.boundary && feature.boundary.length > 0)
-      .map(feature => {
-        const pathData = boundaryToSVGPath(feature.boundary!);
-        const strokeColor = feature.type === 'lake' ? '#666' : '#222';
-        const strokeWidth = feature.type === 'lake' ? 1 : 2;
-        
-        return (
-          <path
-            key={`coastline-${feature.id}`}
-            d={pathData}
-            fill="none"
-            stroke={strokeColor}
-            strokeWidth={strokeWidth}
-            strokeLinejoin="round"
-            strokeLinecap="round"
-          />
-        );
-      });
-  }, [features]);
+  }, [cells]);
+
+  const svgPaths = useMemo(() => {
+    if (activeRenderer !== 'svg') return [];
+    return cellLayer(coast ? coast.water : cellFills, 'cell');
+  }, [cellLayer, cellFills, coast, activeRenderer]);
+
+  const landPaths = useMemo(() => {
+    if (activeRenderer !== 'svg' || !coast) return [];
+    return cellLayer(coast.land, 'land');
+  }, [cellLayer, coast, activeRenderer]);
+
+  // Share of land covered by each biome, largest first
+  const biomeLegend = useMemo(() => {
+    const counts = new Map<Biome, number>();
+    let landCells = 0;
+    for (const cell of cells) {
+      if (!cell.isLand || !cell.biome) continue;
+      counts.set(cell.biome, (counts.get(cell.biome) ?? 0) + 1);
+      landCells++;
+    }
+    return Array.from(counts, ([biome, count]) => ({ biome, share: count / landCells }))
+      .sort((a, b) => b.share - a.share);
+  }, [cells]);
+
+  const overlayPaths = useMemo(() => {
+    if (!overlayFills || activeRenderer !== 'svg') return [];
+
+    return cells.map(cell => {
+      const pathData = cellPathData(cell);
+      const fill = overlayFills[cell.id];
+      if (!pathData || !fill) return null;
+
+      return (
+        <path
+          key={`overlay-${cell.id}`}
+          d={pathData}
+          fill={fill}
+          stroke="none"
+        />
+      );
+    }).filter(Boolean);
+  }, [cells, overlayFills, activeRenderer]);
+
+  // Images show the map as currently colored; heightmaps carry the raw cell heights
+  const exportImage = useCallback(async (kind: ImageExport) => {
+    if (!world) return;
+    const name = `fwg4-${world.seed}`;
+    try {
+      if (kind === 'svg' || kind === 'png') {
+        const svg = worldToSVG(world, { cells: cellFills, overlay: overlayFills }, smoothing, showShelf);
+        if (kind === 'svg') {
+          downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${name}.svg`);
+        } else {
+          downloadBlob(await svgToPNG(svg, width, height, exportScale), `${name}@${exportScale}x.png`);
+        }
+      } else {
+        const raster = rasterizeHeights(world.cells, width, height, exportScale);
+        const size = `${raster.width}x${raster.height}`;
+        if (kind === 'heightmap') {
+          downloadBlob(await heightRasterToPNG(raster), `${name}-heightmap-${size}.png`);
+        } else if (kind === 'raw') {
+          downloadBlob(new Blob([encodeRaw16(raster)]), `${name}-heightmap-${size}.r16`);
+        } else {
+          downloadBlob(new Blob([encodePGM16(raster)]), `${name}-heightmap-${size}.pgm`);
+        }
+      }
+      setFileError(null);
+    } catch (error) {
+      setFileError(`Could not export ${kind.toUpperCase()}: ${error instanceof Error ? error.message : error}`);
+    }
+  }, [world, cellFills, overlayFills, smoothing, showShelf, width, height, exportScale]);
+
+  const exportGeoJSON = useCallback(() => {
+    if (!world) return;
+    const [west, south, east, north] = geoExtent;
+    if (georeference && (!(east > west) || !(north > south))) {
+      setFileError('Could not export GeoJSON: the extent needs East > West and North > South');
+      return;
+    }
+    const collection = worldToGeoJSON(world, georeference ? extentTransform(width, height, geoExtent) : undefined);
+    downloadBlob(new Blob([JSON.stringify(collection)], { type: 'application/geo+json' }), `fwg4-${world.seed}.geojson`);
+    setFileError(null);
+  }, [world, width, height, georeference, geoExtent]);
+
+  const riverPaths = useMemo(() => {
+    return rivers.map(river => (
+      <path
+        key={`river-${river.id}`}
+        d={riverToSVGPath(river)}
+        fill={RIVER_COLOR}
+        stroke="none"
+      />
+    ));
+  }, [rivers]);
+
+  const inspectedCellId = hoveredCellId ?? pinnedCellId;
+  const inspectedCell = inspectedCellId !== null ? cells[inspectedCellId] ?? null : null;
+  const inspectedCellPath = inspectedCell ? cellPathData(inspectedCell) : null;
+
+  // Selected feature: its cells filled and its outline traced from them
+  const selection = useMemo(() => {
+    const feature = features.find(f => f.id === selectedFeatureId);
+    if (!feature) return null;
+    return {
+      cells: feature.cells.map(cellId => cellPathData(cells[cellId])).filter(Boolean).join(' '),
+      outline: traceCellOutline(cells, feature.cells).map(ring => boundaryToSVGPath(ring)).join(' ')
+    };
+  }, [features, cells, selectedFeatureId]);
+
+  const coastlineElements = useMemo(() => {
+    return coastlinePaths(features, smoothing, width, height).map(({ key, d, stroke, strokeWidth }) => (
+      <path
+        key={`coastline-${key}`}
+        d={d}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={strokeWidth}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+    ));
+  }, [features, smoothing, width, height]);
 
   return (
     <div className="map-generator">
       <div className="controls">
         <button 
-          onClick={generateMap} 
+          onClick={() => generateMap()} 
           disabled={isGenerating}
           className="generate-btn"
         >
           {isGenerating ? 'Generating...' : 'Generate New Map'}
         </button>
+
+        {isGenerating && (
+          <div className="generation-progress">
+            <div className="progress-bar">
+              <div
+                className="progress-fill"
+                style={{ width: `${progress ? ((progress.index + 1) / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <div className="progress-status">
+              <span>{progress ? `${progress.label} (${progress.index + 1}/${progress.total})` : 'Starting worker...'}</span>
+              <button onClick={cancelGeneration} className="cancel-btn">Cancel</button>
+            </div>
+          </div>
+        )}
+        
+        <div className="file-actions">
+          <button onClick={exportWorld} disabled={!world || isGenerating}>Export World</button>
+          <button onClick={() => importInputRef.current?.click()} disabled={isGenerating}>Import World</button>
+          <button onClick={copyLink} disabled={!world} title="Link that regenerates this map">Copy Link</button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importWorld(file);
+              // Allow re-importing the same file after fixing it
+              e.target.value = '';
+            }}
+          />
+        </div>
+        <div className="file-actions">
+          <button onClick={() => exportImage('svg')} disabled={!world}>Export SVG</button>
+          <button onClick={() => exportImage('png')} disabled={!world}>Export PNG</button>
+          <select value={exportScale} onChange={(e) => setExportScale(Number(e.target.value))} title="PNG and heightmap scale">
+            {EXPORT_SCALES.map(scale => (
+              <option key={scale} value={scale}>{scale}×</option>
+            ))}
+          </select>
+        </div>
+        <div className="file-actions">
+          <button onClick={() => exportImage('heightmap')} disabled={!world} title="8-bit grayscale PNG">Heightmap</button>
+          <button onClick={() => exportImage('raw')} disabled={!world} title="16-bit little-endian, no header">RAW 16-bit</button>
+          <button onClick={() => exportImage('pgm')} disabled={!world} title="16-bit binary PGM">PGM 16-bit</button>
+        </div>
+        <div className="file-actions">
+          <button onClick={exportGeoJSON} disabled={!world} title="Islands and lakes as polygons">Export GeoJSON</button>
+          <label className="geo-toggle">
+            <input type="checkbox" checked={georeference} onChange={(e) => setGeoreference(e.target.checked)} />
+            Georeference
+          </label>
+        </div>
+        {georeference && (
+          <div className="geo-extent">
+            {GEO_EXTENT_LABELS.map((label, i) => (
+              <label key={label}>
+                {label}
+                <input
+                  type="number"
+                  value={geoExtent[i]}
+                  onChange={(e) => {
+                    const extent: CoordinateExtent = [...geoExtent];
+                    extent[i] = Number(e.target.value);
+                    setGeoExtent(extent);
+                  }}
+                />
+              </label>
+            ))}
+          </div>
+        )}
+        {fileError && <p className="file-error">{fileError}</p>}
+        {linkStatus && <p className="link-status">{linkStatus}</p>}
+
+        <div className="param-group">
+          <label>History</label>
+          <div className="history-actions">
+            <button onClick={undo} disabled={history.index <= 0} title="Ctrl+Z">Undo</button>
+            <button onClick={redo} disabled={history.index >= history.entries.length - 1} title="Ctrl+Shift+Z">Redo</button>
+          </div>
+          <ol className="history-list">
+            {history.entries.map((entry, i) => (
+              <li key={entry.id}>
+                <button
+                  className={i === history.index ? 'current' : i > history.index ? 'undone' : undefined}
+                  onClick={() => jumpTo(i)}
+                >
+                  {entry.label}
+                </button>
+              </li>
+            ))}
+          </ol>
+          <small>Generated maps are kept as seed and settings and rebuilt when revisited; edited maps are kept as snapshots</small>
+        </div>
         
         <div className="param-controls">
+          <div className="param-group">
+            <label>Seed</label>
+            <div className="seed-input">
+              <input
+                type="text"
+                value={seed}
+                onChange={(e) => updateSeed(e.target.value)}
+              />
+              <button onClick={rollSeed} disabled={isGenerating} title="Generate with a random seed">
+                🎲
+              </button>
+            </div>
+            <small>Same seed and parameters always produce the same map</small>
+          </div>
+          
           <div className="param-group">
             <label>Points: {numPoints}</label>
             <input
               type="range"
-              min="1000"
-              max="8000"
-              step="500"
+              {...sliderRange(NUM_POINTS_RANGE)}
               value={numPoints}
-              onChange={(e) => setNumPoints(Number(e.target.value))}
+              onChange={(e) => updateNumPoints(Number(e.target.value))}
             />
           </div>
-          
+
           <div className="param-group">
-            <label>Blobs: {params.numBlobs}</label>
+            <label>Point Distribution</label>
+            <select
+              value={meshOptions.distribution}
+              onChange={(e) => updateMeshOptions({ distribution: e.target.value as PointDistribution })}
+            >
+              <option value="jittered">Jittered grid</option>
+              <option value="poisson">Poisson disk</option>
+            </select>
+            <label>Lloyd Relaxation: {meshOptions.relaxIterations}</label>
             <input
               type="range"
-              min="1"
-              max="20"
-              step="1"
-              value={params.numBlobs}
-              onChange={(e) => setParams(prev => ({ ...prev, numBlobs: Number(e.target.value) }))}
+              {...sliderRange(MESH_OPTION_RANGES.relaxIterations)}
+              value={meshOptions.relaxIterations}
+              onChange={(e) => updateMeshOptions({ relaxIterations: Number(e.target.value) })}
             />
+            <small>More iterations give more regular, evenly sized cells</small>
           </div>
           
           <div className="param-group">
-            <label>Falloff: {params.falloff.toFixed(2)}</label>
-            <input
-              type="range"
-              min="0.7"
-              max="4.0"
-              step="0.1"
-              value={params.falloff}
-              onChange={(e) => setParams(prev => ({ ...prev, falloff: Number(e.target.value) }))}
-            />
-            <small>{params.falloff >= 2.0 ? 'Continental (gentle plateaus)' : 'Island (sharp peaks)'}</small>
+            <label>Preset</label>
+            <select
+              value={activePresetKey}
+              onChange={(e) => {
+                const [kind, key] = e.target.value.split(':');
+                const preset = kind === 'user' ? userPresets[Number(key)] : BUILTIN_PRESETS[key as BuiltinPresetId];
+                if (preset) applyPreset(preset);
+              }}
+            >
+              {!activePresetKey && <option value="">Custom</option>}
+              <optgroup label="Built-in">
+                {(Object.keys(BUILTIN_PRESETS) as BuiltinPresetId[]).map(id => (
+                  <option key={id} value={`builtin:${id}`}>{BUILTIN_PRESETS[id].name}</option>
+                ))}
+              </optgroup>
+              {userPresets.length > 0 && (
+                <optgroup label="Saved">
+                  {userPresets.map((preset, i) => (
+                    <option key={preset.name} value={`user:${i}`}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
+            <div className="preset-actions">
+              <button onClick={savePreset} title="Save the current terrain parameters in this browser">Save</button>
+              <button onClick={deletePreset} disabled={!activePresetKey.startsWith('user:')}>Delete</button>
+              <button onClick={() => presetInputRef.current?.click()}>Import</button>
+              <button onClick={exportPresets} disabled={userPresets.length === 0} title="Download saved presets as JSON">Export</button>
+              <input
+                ref={presetInputRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importPresets(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <small>Sets the terrain parameters; generate to see the result</small>
           </div>
-          
+
           <div className="param-group">
-            <label>Sharpness: {params.sharpness.toFixed(2)}</label>
-            <input
-              type="range"
-              min="0"
-              max="0.3"
-              step="0.01"
-              value={params.sharpness}
-              onChange={(e) => setParams(prev => ({ ...prev, sharpness: Number(e.target.value) }))}
-            />
+            <label>Terrain</label>
+            <select
+              value={params.terrainMode}
+              onChange={(e) => updateParams({ terrainMode: e.target.value as TerrainMode })}
+            >
+              <option value="blob">Blobs</option>
+              <option value="template">Heightmap template</option>
+            </select>
+            {params.terrainMode === 'template' && (
+              <select
+                value={params.template}
+                onChange={(e) => updateParams({ template: e.target.value as TemplateName })}
+              >
+                {(Object.keys(HEIGHTMAP_TEMPLATES) as TemplateName[]).map(name => (
+                  <option key={name} value={name}>{HEIGHTMAP_TEMPLATES[name].name}</option>
+                ))}
+              </select>
+            )}
+            <small>{params.terrainMode === 'template' ? 'Composable Hill/Range/Trough/Strait steps' : 'Random blobs with noise'}</small>
           </div>
           
+          {params.terrainMode === 'blob' && (
+            <>
+              <div className="param-group">
+                <label>Blobs: {params.numBlobs}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.numBlobs)}
+                  value={params.numBlobs}
+                  onChange={(e) => updateParams({ numBlobs: Number(e.target.value) })}
+                />
+              </div>
+          
+              <div className="param-group">
+                <label>Falloff: {params.falloff.toFixed(2)}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.falloff)}
+                  value={params.falloff}
+                  onChange={(e) => updateParams({ falloff: Number(e.target.value) })}
+                />
+                <small>{params.falloff >= 2.0 ? 'Continental (gentle plateaus)' : 'Island (sharp peaks)'}</small>
+              </div>
+          
+              <div className="param-group">
+                <label>Sharpness: {params.sharpness.toFixed(2)}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.sharpness)}
+                  value={params.sharpness}
+                  onChange={(e) => updateParams({ sharpness: Number(e.target.value) })}
+                />
+              </div>
+          
+              <div className="param-group">
+                <label>Noise Scale: {params.noiseScale.toFixed(1)}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.noiseScale)}
+                  value={params.noiseScale}
+                  onChange={(e) => updateParams({ noiseScale: Number(e.target.value) })}
+                />
+                <label>Noise Amplitude: {params.noiseAmplitude.toFixed(2)}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.noiseAmplitude)}
+                  value={params.noiseAmplitude}
+                  onChange={(e) => updateParams({ noiseAmplitude: Number(e.target.value) })}
+                />
+                <label>Octaves: {params.noiseOctaves}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.noiseOctaves)}
+                  value={params.noiseOctaves}
+                  onChange={(e) => updateParams({ noiseOctaves: Number(e.target.value) })}
+                />
+                <label>Domain Warp: {params.noiseWarp.toFixed(2)}</label>
+                <input
+                  type="range"
+                  {...sliderRange(TERRAIN_PARAM_RANGES.noiseWarp)}
+                  value={params.noiseWarp}
+                  onChange={(e) => updateParams({ noiseWarp: Number(e.target.value) })}
+                />
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={params.noiseRidged}
+                    onChange={(e) => updateParams({ noiseRidged: e.target.checked })}
+                  />
+                  Ridged Noise
+                </label>
+                <small>Coherent simplex noise shaping coastlines and heights</small>
+              </div>
+            </>
+          )}
+          
           <div className="param-group">
-            <label>Sea Level: {params.seaLevel.toFixed(2)}</label>
+            <label>Sea Level: {effectiveSeaLevel(params).toFixed(2)}</label>
             <input
               type="range"
-              min="0.1"
-              max="0.4"
-              step="0.01"
-              value={params.seaLevel}
-              onChange={(e) => setParams(prev => ({ ...prev, seaLevel: Number(e.target.value) }))}
+              {...sliderRange(TERRAIN_PARAM_RANGES.seaLevel)}
+              value={effectiveSeaLevel(params)}
+              disabled={params.terrainMode === 'template'}
+              onChange={(e) => updateParams({ seaLevel: Number(e.target.value) })}
             />
+            {params.terrainMode === 'template' && <small>Templates are built around a fixed sea level</small>}
           </div>
           
           <div className="param-group">
             <label>Water Margin: {params.waterMargin}</label>
             <input
               type="range"
-              min="0"
-              max="100"
-              step="1"
+              {...sliderRange(TERRAIN_PARAM_RANGES.waterMargin)}
               value={params.waterMargin}
-              onChange={(e) => setParams(prev => ({ ...prev, waterMargin: Number(e.target.value) }))}
+              onChange={(e) => updateParams({ waterMargin: Number(e.target.value) })}
             />
             <small>Buffer around map edges to ensure water</small>
           </div>
 
           <div className="param-group">
+            <label>River Threshold: {params.riverThreshold.toFixed(2)}%</label>
+            <input
+              type="range"
+              {...sliderRange(TERRAIN_PARAM_RANGES.riverThreshold)}
+              value={params.riverThreshold}
+              onChange={(e) => updateParams({ riverThreshold: Number(e.target.value) })}
+            />
+            <small>Drainage area a cell needs before it carries a river</small>
             <label className="checkbox-label">
               <input
                 type="checkbox"
-                checked={params.continentMode}
-                onChange={(e) => setParams(prev => ({ ...prev, continentMode: e.target.checked }))}
+                checked={params.depressionLakes}
+                onChange={(e) => updateParams({ depressionLakes: e.target.checked })}
               />
-              Continent Mode
+              Depression Lakes
             </label>
-            <small>Generate large continents instead of scattered islands</small>
+            <small>Flood closed basins; lakes that evaporate more than they receive turn salty</small>
+          </div>
+
+          <div className="param-group">
+            <label>Equator Temperature: {params.equatorTemperature}°C</label>
+            <input
+              type="range"
+              {...sliderRange(TERRAIN_PARAM_RANGES.equatorTemperature)}
+              value={params.equatorTemperature}
+              onChange={(e) => updateParams({ equatorTemperature: Number(e.target.value) })}
+            />
+            <label>Pole Temperature: {params.poleTemperature}°C</label>
+            <input
+              type="range"
+              {...sliderRange(TERRAIN_PARAM_RANGES.poleTemperature)}
+              value={params.poleTemperature}
+              onChange={(e) => updateParams({ poleTemperature: Number(e.target.value) })}
+            />
+            <label>Lapse Rate: {params.lapseRate.toFixed(1)}°C/km</label>
+            <input
+              type="range"
+              {...sliderRange(TERRAIN_PARAM_RANGES.lapseRate)}
+              value={params.lapseRate}
+              onChange={(e) => updateParams({ lapseRate: Number(e.target.value) })}
+            />
+            <label>Precipitation: {params.precipitationScale.toFixed(2)}×</label>
+            <input
+              type="range"
+              {...sliderRange(TERRAIN_PARAM_RANGES.precipitationScale)}
+              value={params.precipitationScale}
+              onChange={(e) => updateParams({ precipitationScale: Number(e.target.value) })}
+            />
+            <label>Overlay</label>
+            <select value={overlay} onChange={(e) => setOverlay(e.target.value as ClimateOverlay)}>
+              <option value="none">None</option>
+              <option value="temperature">Temperature</option>
+              <option value="precipitation">Precipitation</option>
+            </select>
+            <small>Equator at mid-height; wind bands carry rain inland and leave rain shadows behind mountains</small>
           </div>
+
+          {params.terrainMode === 'blob' && (
+            <div className="param-group">
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={params.continentMode}
+                  onChange={(e) => updateParams({ continentMode: e.target.checked })}
+                />
+                Continent Mode
+              </label>
+              <small>Generate large continents instead of scattered islands</small>
+            </div>
+          )}
+        </div>
+        
+        <div className="param-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={editMode}
+              onChange={(e) => {
+                setEditMode(e.target.checked);
+                setBrushCursor(null);
+              }}
+            />
+            Edit Terrain
+          </label>
+          {editMode && (
+            <>
+              <select
+                value={brush.tool}
+                onChange={(e) => setBrush(prev => ({ ...prev, tool: e.target.value as BrushTool }))}
+              >
+                {(Object.keys(BRUSH_TOOLS) as BrushTool[]).map(tool => (
+                  <option key={tool} value={tool}>{BRUSH_TOOLS[tool]}</option>
+                ))}
+              </select>
+              <label>Brush Radius: {brush.radius}px</label>
+              <input
+                type="range"
+                min="5"
+                max="150"
+                step="5"
+                value={brush.radius}
+                onChange={(e) => setBrush(prev => ({ ...prev, radius: Number(e.target.value) }))}
+              />
+              <label>Brush Strength: {brush.strength.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={brush.strength}
+                onChange={(e) => setBrush(prev => ({ ...prev, strength: Number(e.target.value) }))}
+              />
+            </>
+          )}
+          <small>Drag on the map to edit; climate, rivers and biomes update when you release</small>
+        </div>
+
+        <div className="param-group">
+          <label>Renderer</label>
+          <select value={activeRenderer} onChange={(e) => setRenderer(e.target.value as Renderer)}>
+            <option value="svg" disabled={cells.length > SVG_CELL_LIMIT}>SVG</option>
+            <option value="canvas">Canvas (zoom and pan)</option>
+          </select>
+          <small>
+            Canvas: scroll to zoom, drag to pan (right-drag while editing).
+            Maps over {SVG_CELL_LIMIT.toLocaleString()} cells always use the canvas
+          </small>
+        </div>
+
+        <div className="param-group">
+          <label>Color Mode</label>
+          <select value={renderMode} onChange={(e) => setRenderMode(e.target.value as RenderMode)}>
+            <option value="height">Height</option>
+            <option value="biome">Biome</option>
+          </select>
+          {renderMode === 'biome' && (
+            <ul className="biome-legend">
+              {biomeLegend.map(({ biome, share }) => (
+                <li key={biome}>
+                  <span className="biome-swatch" style={{ background: BIOMES[biome].color }} />
+                  {BIOMES[biome].name}
+                  <span className="biome-share">{(share * 100).toFixed(1)}%</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <label className="checkbox-label">
+            <input type="checkbox" checked={showShelf} onChange={(e) => setShowShelf(e.target.checked)} />
+            Shelf Outline
+          </label>
+          <small>Water is shaded by depth; the outline marks where the shelf drops into deep ocean</small>
+        </div>
+        
+        <div className="param-group">
+          <label>Coastline Smoothing</label>
+          <select
+            value={smoothing.method}
+            onChange={(e) => setSmoothing(prev => ({ ...prev, method: e.target.value as SmoothingMethod }))}
+          >
+            {Object.entries(SMOOTHING_METHODS).map(([method, label]) => (
+              <option key={method} value={method}>{label}</option>
+            ))}
+          </select>
+          {smoothing.method === 'chaikin' && (
+            <>
+              <label>Iterations: {smoothing.iterations}</label>
+              <input
+                type="range"
+                min="1"
+                max="5"
+                step="1"
+                value={smoothing.iterations}
+                onChange={(e) => setSmoothing(prev => ({ ...prev, iterations: Number(e.target.value) }))}
+              />
+            </>
+          )}
+          {smoothing.method === 'spline' && (
+            <>
+              <label>Tension: {smoothing.tension.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={smoothing.tension}
+                onChange={(e) => setSmoothing(prev => ({ ...prev, tension: Number(e.target.value) }))}
+              />
+            </>
+          )}
+          <small>Curves the coastline and the land fill under it (display only, no regeneration)</small>
         </div>
         
+        <InspectorPanel
+          width={width}
+          height={height}
+          cells={cells}
+          features={features}
+          inspectedCell={inspectedCell}
+          pinned={hoveredCellId === null && inspectedCell !== null}
+          selectedFeatureId={selectedFeatureId}
+          onSelectFeature={setSelectedFeatureId}
+          onRenameFeature={renameFeature}
+        />
+        
         <div className="map-info">
           <p>Features: {features.length} (Ocean: 1, Lakes: {features.filter(f => f.type === 'lake').length}, Islands: {features.filter(f => f.type === 'island').length})</p>
           <p>Coastal Cells: {cells.filter(c => c.isCoastal).length}</p>
+          <p>
+            Coastline Rings: {features.reduce((n, f) => n + (f.rings?.length ?? 0), 0)}
+            {' '}(Lake Shores: {features.reduce((n, f) => n + (f.rings?.filter(r => r.hole).length ?? 0), 0)}
+            {world && world.stats.openCoastlines > 0 && `, Open: ${world.stats.openCoastlines}`})
+          </p>
+          <p>Rivers: {rivers.length}, Salt Lakes: {features.filter(f => f.lake && !f.lake.freshwater).length}</p>
         </div>
       </div>
       
       <div className="map-container">
-        <svg 
-          width={width} 
-          height={height} 
-          className="heightmap"
-          viewBox={`0 0 ${width} ${height}`}
-          preserveAspectRatio="xMidYMid meet"
-        >
-          <defs>
-            <clipPath id="mapClip">
-              <rect width={width} height={height} />
-            </clipPath>
-          </defs>
+        {activeRenderer === 'canvas' ? (
+          <MapCanvas
+            width={width}
+            height={height}
+            cells={cells}
+            fills={cellFills}
+            overlayFills={overlayFills}
+            coast={coast}
+            features={features}
+            smoothing={smoothing}
+            selection={selection}
+            inspectedCell={inspectedCellPath}
+            shelf={shelf}
+            rivers={rivers}
+            brushRadius={canEdit ? brush.radius : null}
+            onBrushStart={startStroke}
+            onBrushMove={continueStroke}
+            onBrushEnd={endStroke}
+            onHover={inspectAt}
+            onPick={pickAt}
+          />
+        ) : (
+          <svg 
+            ref={svgRef}
+            width={width} 
+            height={height} 
+            className={editMode ? 'heightmap editing' : 'heightmap'}
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="xMidYMid meet"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={endStroke}
+            onPointerCancel={endStroke}
+            onPointerLeave={() => {
+              setBrushCursor(null);
+              inspectAt(null);
+            }}
+          >
+            <defs>
+              <clipPath id="mapClip">
+                <rect width={width} height={height} />
+              </clipPath>
+              {landShape && (
+                <clipPath id="landClip">
+                  <path d={landShape} />
+                </clipPath>
+              )}
+            </defs>
+          
+            {/* Water background */}
+            <rect width={width} height={height} fill="#1e3a8a" />
           
-          {/* Water background */}
-          <rect width={width} height={height} fill="#1e3a8a" />
+            {/* Land polygons - clipped to canvas */}
+            <g clipPath="url(#mapClip)">
+              {svgPaths}
+            </g>
+            {landShape && (
+              <g clipPath="url(#mapClip)">
+                <g clipPath="url(#landClip)">
+                  {landPaths}
+                </g>
+              </g>
+            )}
           
-          {/* Land polygons - clipped to canvas */}
-          <g clipPath="url(#mapClip)">
-            {svgPaths}
-          </g>
+            {/* Climate overlay - translucent, above land */}
+            <g clipPath="url(#mapClip)" opacity={0.7}>
+              {overlayPaths}
+            </g>
           
-          {/* Coastline paths - clipped to canvas */}
-          <g clipPath="url(#mapClip)">
-            {coastlinePaths}
-          </g>
-        </svg>
+            {/* Shelf edge - dashed, below rivers and coastlines */}
+            {shelf && (
+              <path
+                d={shelf}
+                fill="none"
+                stroke={SHELF_STYLE.stroke}
+                strokeWidth={SHELF_STYLE.strokeWidth}
+                strokeDasharray={SHELF_STYLE.dash.join(' ')}
+                clipPath="url(#mapClip)"
+                pointerEvents="none"
+              />
+            )}
+          
+            {/* Rivers - above land, below coastlines */}
+            <g clipPath="url(#mapClip)">
+              {riverPaths}
+            </g>
+          
+            {/* Coastline paths - clipped to canvas */}
+            <g clipPath="url(#mapClip)">
+              {coastlineElements}
+            </g>
+          
+            {/* Selected feature and inspected cell */}
+            {selection && (
+              <g clipPath="url(#mapClip)" pointerEvents="none">
+                <path d={selection.cells} fill={HIGHLIGHT_STYLE.fill} stroke="none" />
+                <path d={selection.outline} fill="none" stroke={HIGHLIGHT_STYLE.stroke} strokeWidth={2} />
+              </g>
+            )}
+            {inspectedCellPath && (
+              <path d={inspectedCellPath} fill="none" stroke={HIGHLIGHT_STYLE.cellStroke} strokeWidth={1.5} pointerEvents="none" />
+            )}
+
+            {/* Brush outline - follows the pointer while editing */}
+            {editMode && brushCursor && (
+              <circle
+                cx={brushCursor[0]}
+                cy={brushCursor[1]}
+                r={brush.radius}
+                className="brush-cursor"
+              />
+            )}
+          </svg>
+        )}
       </div>
     </div>
   );
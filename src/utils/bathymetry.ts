@@ -0,0 +1,132 @@
+import { traceCellOutline, type Feature } from './coastline';
+import { chaikin } from './smoothing';
+import type { Cell } from './voronoi';
+
+// Depth profile away from the coast, as fractions of the sea surface height:
+// a gently sloping shelf, a steep slope, then the abyssal plain
+const COAST_LEVEL = 0.95;
+const SHELF_EDGE_LEVEL = 0.75;
+const ABYSS_LEVEL = 0.25;
+
+// Profile widths in map pixels
+const SHELF_WIDTH = 40;
+const SLOPE_WIDTH = 60;
+
+// How far the underlying terrain moves the abyss: basins and trenches in the
+// generated heights deepen it, submerged ridges raise it
+const TERRAIN_INFLUENCE = 0.2;
+
+// Chaikin passes applied to the shelf outline
+const SHELF_SMOOTHING = 2;
+
+/**
+ * Height separating land from water in a finished world
+ * Generation may pick an adaptive sea level below the nominal one, so the
+ * lowest land cell is used when it is lower
+ */
+export function seaSurfaceHeight(cells: Cell[], seaLevel: number): number {
+  let lowest = seaLevel;
+  for (const cell of cells) {
+    if (cell.isLand) lowest = Math.min(lowest, cell.height);
+  }
+  return lowest;
+}
+
+/**
+ * Give every water cell a height below the sea surface from its distance to
+ * the nearest coast and the terrain generated under it
+ * underlying holds each cell's height before sea level was applied; cells
+ * that were land then (carved borders, flooded islands) count as shallow
+ * ground. Land cells are left untouched
+ */
+export function applyBathymetry(
+  cells: Cell[],
+  underlying: ArrayLike<number>,
+  surface: number,
+  width: number,
+  height: number
+): void {
+  // Hop distance in rings of cells from the nearest land, converted with the mean cell spacing
+  const spacing = Math.sqrt((width * height) / Math.max(1, cells.length));
+  const distance = new Float64Array(cells.length).fill(Infinity);
+  const queue: number[] = [];
+
+  for (const cell of cells) {
+    if (!cell.isLand && cell.neighbors.some(id => cells[id].isLand)) {
+      distance[cell.id] = 0;
+      queue.push(cell.id);
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const id = queue[head];
+    for (const neighborId of cells[id].neighbors) {
+      if (cells[neighborId].isLand || distance[neighborId] !== Infinity) continue;
+      distance[neighborId] = distance[id] + 1;
+      queue.push(neighborId);
+    }
+  }
+
+  for (const cell of cells) {
+    if (cell.isLand) continue;
+    const relief = surface > 0 ? Math.min(1, Math.max(0, underlying[cell.id] / surface)) : 0;
+    cell.height = depthProfile(distance[cell.id] * spacing, relief) * surface;
+  }
+}
+
+/**
+ * Whether a water cell lies on the continental shelf
+ */
+export function isShelfCell(cell: Cell, surface: number): boolean {
+  return !cell.isLand && cell.height >= surface * SHELF_EDGE_LEVEL;
+}
+
+/**
+ * SVG path data along the ocean's shelf edge, smoothed like a coastline
+ * Traced around land, lakes and shelf water together, so the line runs where
+ * the shelf drops into deeper ocean; stretches along the map border are left out
+ */
+export function shelfOutlinePath(cells: Cell[], features: Feature[], surface: number, width: number, height: number): string {
+  const ocean = new Set(features.filter(feature => feature.type === 'ocean').map(feature => feature.id));
+  const shallow = cells
+    .filter(cell => cell.featureId === undefined || !ocean.has(cell.featureId) || isShelfCell(cell, surface))
+    .map(cell => cell.id);
+
+  const onBorder = ([x, y]: [number, number]) => x <= 0 || y <= 0 || x >= width || y >= height;
+  const parts: string[] = [];
+
+  for (const ring of traceCellOutline(cells, shallow)) {
+    const points = chaikin(ring, true, SHELF_SMOOTHING, onBorder);
+    let drawing = false;
+    points.forEach((point, i) => {
+      const next = points[(i + 1) % points.length];
+      if (onBorder(point) && onBorder(next)) {
+        drawing = false;
+        return;
+      }
+      if (!drawing) parts.push(`M ${format(point)}`);
+      parts.push(`L ${format(next)}`);
+      drawing = true;
+    });
+  }
+
+  return parts.join(' ');
+}
+
+/**
+ * Height as a fraction of the sea surface at a distance (pixels) from the coast
+ * relief (0-1) is the underlying terrain relative to the surface
+ */
+function depthProfile(distance: number, relief: number): number {
+  if (distance <= SHELF_WIDTH) {
+    return COAST_LEVEL + (SHELF_EDGE_LEVEL - COAST_LEVEL) * (distance / SHELF_WIDTH);
+  }
+
+  const abyss = ABYSS_LEVEL + TERRAIN_INFLUENCE * (2 * relief - 1);
+  const t = Math.min(1, (distance - SHELF_WIDTH) / SLOPE_WIDTH);
+  const eased = t * t * (3 - 2 * t);
+  return SHELF_EDGE_LEVEL + (abyss - SHELF_EDGE_LEVEL) * eased;
+}
+
+function format([x, y]: [number, number]): string {
+  return `${+x.toFixed(2)} ${+y.toFixed(2)}`;
+}
@@ -0,0 +1,126 @@
+import type { Cell } from './voronoi';
+import type { Feature } from './coastline';
+
+export type Biome =
+  | 'water'
+  | 'glacier'
+  | 'tundra'
+  | 'taiga'
+  | 'coldDesert'
+  | 'grassland'
+  | 'temperateForest'
+  | 'temperateRainforest'
+  | 'hotDesert'
+  | 'savanna'
+  | 'tropicalSeasonalForest'
+  | 'tropicalRainforest'
+  | 'wetland'
+  | 'beach';
+
+declare module './voronoi' {
+  interface Cell {
+    biome?: Biome;
+  }
+}
+
+/**
+ * Display name and map color of every biome, in legend order
+ */
+export const BIOMES: Record<Biome, { name: string; color: string }> = {
+  water: { name: 'Water', color: '#1e3a8a' },
+  glacier: { name: 'Glacier', color: '#e8f4f8' },
+  tundra: { name: 'Tundra', color: '#b8c4b0' },
+  taiga: { name: 'Taiga', color: '#4b6e4f' },
+  coldDesert: { name: 'Cold Desert', color: '#c9c0a0' },
+  grassland: { name: 'Grassland', color: '#b5c96a' },
+  temperateForest: { name: 'Temperate Forest', color: '#4f8f3a' },
+  temperateRainforest: { name: 'Temperate Rainforest', color: '#2e6b4a' },
+  hotDesert: { name: 'Hot Desert', color: '#e6cf8b' },
+  savanna: { name: 'Savanna', color: '#d1c35a' },
+  tropicalSeasonalForest: { name: 'Tropical Seasonal Forest', color: '#7ea83a' },
+  tropicalRainforest: { name: 'Tropical Rainforest', color: '#1f7a2e' },
+  wetland: { name: 'Wetland', color: '#5f9e8f' },
+  beach: { name: 'Beach', color: '#f0e1a8' }
+};
+
+// Whittaker-style matrix: rows are temperature bands (°C, coldest first),
+// columns are precipitation bands (mm/year, driest first)
+const TEMPERATURE_BANDS = [-5, 0, 10, 20]; // Upper bounds; warmer cells fall in the last row
+const PRECIPITATION_BANDS = [250, 500, 1000, 2000]; // Upper bounds; wetter cells fall in the last column
+const BIOME_MATRIX: Biome[][] = [
+  ['tundra', 'tundra', 'tundra', 'tundra', 'tundra'],
+  ['tundra', 'tundra', 'taiga', 'taiga', 'taiga'],
+  ['coldDesert', 'grassland', 'taiga', 'taiga', 'temperateRainforest'],
+  ['coldDesert', 'grassland', 'temperateForest', 'temperateForest', 'temperateRainforest'],
+  ['hotDesert', 'savanna', 'savanna', 'tropicalSeasonalForest', 'tropicalRainforest']
+];
+
+// Permanent ice below this mean annual temperature (°C)
+const GLACIER_TEMPERATURE = -10;
+
+// Height above sea level (0-1 units) under which land counts as low-lying
+const WETLAND_MAX_ELEVATION = 0.04;
+const BEACH_MAX_ELEVATION = 0.03;
+
+// Low-lying land this wet, or draining this much of the map, becomes wetland
+const WETLAND_PRECIPITATION = 1500;
+const WETLAND_FLOW = 0.01;
+
+/**
+ * Look up the Whittaker matrix for a temperature/precipitation pair
+ */
+export function whittakerBiome(temperature: number, precipitation: number): Biome {
+  const row = bandIndex(TEMPERATURE_BANDS, temperature);
+  const column = bandIndex(PRECIPITATION_BANDS, precipitation);
+  return BIOME_MATRIX[row][column];
+}
+
+function bandIndex(upperBounds: number[], value: number): number {
+  const index = upperBounds.findIndex(bound => value < bound);
+  return index === -1 ? upperBounds.length : index;
+}
+
+/**
+ * Classify every cell from its climate, elevation and surroundings
+ * Special cases take precedence over the matrix: glaciers where it is cold
+ * enough, wetlands on wet or river-fed lowlands, beaches on low sea coasts
+ * Needs climate, flow and coastal flags to be set on the cells; elevations
+ * are measured from seaSurface, the height of the coast (see seaSurfaceHeight)
+ */
+export function assignBiomes(cells: Cell[], features: Feature[], seaSurface: number): void {
+  const isOcean = new Uint8Array(cells.length);
+  for (const feature of features) {
+    if (feature.type !== 'ocean') continue;
+    for (const cellId of feature.cells) isOcean[cellId] = 1;
+  }
+
+  for (const cell of cells) {
+    if (!cell.isLand) {
+      cell.biome = 'water';
+      continue;
+    }
+
+    const temperature = cell.temperature ?? 0;
+    const precipitation = cell.precipitation ?? 0;
+    const elevation = cell.height - seaSurface;
+
+    if (temperature < GLACIER_TEMPERATURE) {
+      cell.biome = 'glacier';
+    } else if (
+      temperature > 0 &&
+      elevation < WETLAND_MAX_ELEVATION &&
+      (precipitation >= WETLAND_PRECIPITATION || (cell.flow ?? 0) >= WETLAND_FLOW)
+    ) {
+      cell.biome = 'wetland';
+    } else if (
+      temperature > 0 &&
+      cell.isCoastal &&
+      elevation < BEACH_MAX_ELEVATION &&
+      cell.neighbors.some(neighborId => isOcean[neighborId])
+    ) {
+      cell.biome = 'beach';
+    } else {
+      cell.biome = whittakerBiome(temperature, precipitation);
+    }
+  }
+}
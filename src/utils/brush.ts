@@ -0,0 +1,192 @@
+import { findCell, type Cell } from './voronoi';
+import type { World } from './world';
+import { applyColorsToCells } from './color';
+import { seaSurfaceHeight } from './bathymetry';
+import { effectiveSeaLevel } from './terrain';
+import { buildCoastlinePaths, findCoastalEdges, markCoastalCells, relabelRegion } from './coastline';
+import { meshGraphFromCells, syncCellState, type MeshGraph } from './mesh';
+import { nameFeatures } from './names';
+
+export type BrushTool = 'raise' | 'lower' | 'smooth' | 'flatten' | 'land' | 'water';
+
+export interface BrushSettings {
+  tool: BrushTool;
+  radius: number; // Brush radius in map pixels
+  strength: number; // 0-1, scales how much one dab changes heights
+}
+
+export const BRUSH_TOOLS: Record<BrushTool, string> = {
+  raise: 'Raise',
+  lower: 'Lower',
+  smooth: 'Smooth',
+  flatten: 'Flatten',
+  land: 'Paint Land',
+  water: 'Paint Water'
+};
+
+export const DEFAULT_BRUSH: BrushSettings = {
+  tool: 'raise',
+  radius: 40,
+  strength: 0.5
+};
+
+/**
+ * State held for one pointer drag
+ */
+export interface BrushStroke {
+  landThreshold: number; // Cells at or above this height are land
+  lastCellId: number; // Cell under the previous dab, where the next search starts
+  graph: MeshGraph; // Built once per stroke; land flags follow the flipped cells
+  flattenHeight: number; // Flatten target, sampled where the stroke started
+}
+
+// Height change at the brush center per dab at full strength
+const MAX_HEIGHT_STEP = 0.04;
+
+// Painted land is raised this far above the land threshold
+const PAINTED_LAND_HEIGHT = 0.02;
+
+// Painted water is sunk this far below the land threshold, as shallow shelf
+const PAINTED_WATER_DEPTH = 0.02;
+
+/**
+ * Height that separates land from water in a finished world
+ */
+export function landThreshold(world: World): number {
+  return seaSurfaceHeight(world.cells, effectiveSeaLevel(world.params));
+}
+
+/**
+ * Start a stroke at (x, y) in map coordinates
+ */
+export function beginStroke(world: World, x: number, y: number): BrushStroke {
+  const threshold = landThreshold(world);
+  const start = findCell(world.cells, x, y);
+  const graph = meshGraphFromCells(world.cells);
+  syncCellState(graph, world.cells);
+  return {
+    landThreshold: threshold,
+    flattenHeight: start ? start.height : threshold,
+    lastCellId: start ? start.id : 0,
+    graph
+  };
+}
+
+/**
+ * Apply one dab of the brush centered at (x, y), editing cell heights in place
+ * Cells whose land/water state flips get their coastal flags, features and
+ * coastlines patched locally; climate, rivers and biomes are left for
+ * refreshWorld() once the stroke ends
+ * Returns a new World with a new cells array holding the same, edited cell records
+ */
+export function applyBrush(world: World, x: number, y: number, brush: BrushSettings, stroke: BrushStroke): World {
+  const { cells, width, height, params } = world;
+  const threshold = stroke.landThreshold;
+
+  const weights = brushWeights(cells, x, y, brush, stroke);
+  if (weights.size === 0) return world;
+  const edited = { ...world, cells: cells.slice() };
+
+  // Smoothing targets are read before any height changes so the order of cells doesn't matter
+  const neighborMeans = new Map<number, number>();
+  if (brush.tool === 'smooth') {
+    for (const cellId of weights.keys()) {
+      const cell = cells[cellId];
+      let sum = cell.height;
+      for (const neighborId of cell.neighbors) sum += cells[neighborId].height;
+      neighborMeans.set(cellId, sum / (cell.neighbors.length + 1));
+    }
+  }
+
+  const changed: Cell[] = [];
+  const flipped: number[] = [];
+
+  for (const [cellId, weight] of weights) {
+    const cell = cells[cellId];
+    const current = cell.height;
+    let next: number;
+
+    switch (brush.tool) {
+      case 'raise':
+        next = current + MAX_HEIGHT_STEP * weight;
+        break;
+      case 'lower':
+        next = current - MAX_HEIGHT_STEP * weight;
+        break;
+      case 'smooth':
+        next = current + (neighborMeans.get(cellId)! - current) * weight;
+        break;
+      case 'flatten':
+        next = current + (stroke.flattenHeight - current) * weight;
+        break;
+      case 'land':
+        if (cell.isLand) continue;
+        next = threshold + PAINTED_LAND_HEIGHT;
+        break;
+      case 'water':
+        if (!cell.isLand) continue;
+        next = threshold - PAINTED_WATER_DEPTH;
+        break;
+    }
+
+    next = Math.min(1, Math.max(0, next));
+    const isLand = next >= threshold;
+    if (isLand !== !!cell.isLand) flipped.push(cellId);
+
+    // Water keeps its height as depth, so lowering the sea floor works like lowering land
+    cell.isLand = isLand;
+    cell.height = next;
+    changed.push(cell);
+  }
+
+  applyColorsToCells(changed, effectiveSeaLevel(params), threshold);
+  if (flipped.length === 0) return edited;
+
+  const around = new Set<number>(flipped);
+  for (const cellId of flipped) {
+    for (const neighborId of cells[cellId].neighbors) around.add(neighborId);
+  }
+  markCoastalCells(cells, Array.from(around));
+  syncCellState(stroke.graph, cells, flipped);
+
+  const { features, changed: rebuilt } = relabelRegion(stroke.graph, cells, world.features, flipped, width, height);
+  nameFeatures(features, cells, world.seed);
+  const landFeatures = rebuilt.filter(feature => feature.land);
+  const segments = findCoastalEdges(stroke.graph, cells, width, height, landFeatures.flatMap(feature => feature.cells));
+  buildCoastlinePaths(segments, landFeatures, cells);
+
+  return { ...edited, features };
+}
+
+/**
+ * Smooth (1 - d²/r²)² falloff scaled by strength for every cell under the brush
+ * Starts at the cell nearest (x, y), found by walking from the previous dab,
+ * and floods outward through neighbors while centroids stay inside the radius;
+ * the cells inside a circle are always connected in the Delaunay graph, so
+ * the cost follows the brush size rather than the map size. The cell under
+ * the cursor is always painted, so a brush smaller than the cells still works
+ */
+function brushWeights(cells: Cell[], x: number, y: number, brush: BrushSettings, stroke: BrushStroke): Map<number, number> {
+  const weights = new Map<number, number>();
+  const center = findCell(cells, x, y, stroke.lastCellId);
+  if (!center) return weights;
+  stroke.lastCellId = center.id;
+
+  const radiusSquared = brush.radius * brush.radius;
+  const visited = new Set<number>([center.id]);
+  const queue = [center.id];
+  for (let head = 0; head < queue.length; head++) {
+    const cell = cells[queue[head]];
+    let distanceSquared = (cell.centroid[0] - x) ** 2 + (cell.centroid[1] - y) ** 2;
+    if (cell.id === center.id) distanceSquared = Math.min(distanceSquared, radiusSquared / 4);
+    else if (distanceSquared >= radiusSquared) continue;
+
+    weights.set(cell.id, (1 - distanceSquared / radiusSquared) ** 2 * brush.strength);
+    for (const neighborId of cell.neighbors) {
+      if (visited.has(neighborId)) continue;
+      visited.add(neighborId);
+      queue.push(neighborId);
+    }
+  }
+  return weights;
+}
@@ -0,0 +1,149 @@
+import { HEIGHT_COLORS } from './color';
+import type { CoastFills } from './smoothing';
+import type { Cell } from './voronoi';
+
+/**
+ * Placement of the map on screen: screen = map * scale + (x, y), in CSS pixels
+ */
+export interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export type MapBounds = [number, number, number, number]; // [minX, minY, maxX, maxY] in map units
+
+// Opacity of the climate overlay, matching the SVG view
+const OVERLAY_OPACITY = 0.7;
+
+/**
+ * View showing the whole map centered in the viewport
+ */
+export function fitView(mapWidth: number, mapHeight: number, viewWidth: number, viewHeight: number): ViewTransform {
+  const scale = Math.min(viewWidth / mapWidth, viewHeight / mapHeight);
+  return {
+    scale,
+    x: (viewWidth - mapWidth * scale) / 2,
+    y: (viewHeight - mapHeight * scale) / 2
+  };
+}
+
+/**
+ * Zoom by factor while keeping the map point under (screenX, screenY) fixed
+ */
+export function zoomAt(
+  view: ViewTransform,
+  screenX: number,
+  screenY: number,
+  factor: number,
+  minScale: number,
+  maxScale: number
+): ViewTransform {
+  const scale = Math.min(maxScale, Math.max(minScale, view.scale * factor));
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: screenX - (screenX - view.x) * ratio,
+    y: screenY - (screenY - view.y) * ratio
+  };
+}
+
+export function screenToMap(view: ViewTransform, screenX: number, screenY: number): [number, number] {
+  return [(screenX - view.x) / view.scale, (screenY - view.y) / view.scale];
+}
+
+/**
+ * Map area visible in a viewport of the given size
+ */
+export function visibleBounds(view: ViewTransform, viewWidth: number, viewHeight: number): MapBounds {
+  const [minX, minY] = screenToMap(view, 0, 0);
+  const [maxX, maxY] = screenToMap(view, viewWidth, viewHeight);
+  return [minX, minY, maxX, maxY];
+}
+
+/**
+ * Largest distance from a cell site to one of its polygon corners
+ * Cells whose site lies further than this outside the view can't be visible
+ */
+export function cellExtent(cells: Cell[]): number {
+  let extent = 0;
+  for (const cell of cells) {
+    for (const [x, y] of cell.polygon) {
+      extent = Math.max(extent, Math.abs(x - cell.centroid[0]), Math.abs(y - cell.centroid[1]));
+    }
+  }
+  return extent;
+}
+
+/**
+ * Fill cell polygons, one fill call per distinct color
+ * Cells without a fill are skipped, as are cells outside bounds (when given)
+ */
+export function drawCells(
+  ctx: CanvasRenderingContext2D,
+  cells: Cell[],
+  fills: (string | null)[],
+  bounds?: MapBounds,
+  extent: number = 0
+): void {
+  const byColor = new Map<string, Cell[]>();
+
+  for (const cell of cells) {
+    const fill = fills[cell.id];
+    if (!fill || cell.polygon.length < 3) continue;
+    if (bounds) {
+      const [x, y] = cell.centroid;
+      if (x + extent < bounds[0] || x - extent > bounds[2] || y + extent < bounds[1] || y - extent > bounds[3]) continue;
+    }
+    const group = byColor.get(fill);
+    if (group) group.push(cell);
+    else byColor.set(fill, [cell]);
+  }
+
+  for (const [fill, group] of byColor) {
+    ctx.beginPath();
+    for (const { polygon } of group) {
+      ctx.moveTo(polygon[0][0], polygon[0][1]);
+      for (let i = 1; i < polygon.length; i++) ctx.lineTo(polygon[i][0], polygon[i][1]);
+      ctx.closePath();
+    }
+    ctx.fillStyle = fill;
+    ctx.fill();
+  }
+}
+
+/**
+ * Raster layers of the map in map coordinates: water background, cells,
+ * then the translucent climate overlay
+ * With coast fills the land side of the cells is clipped to the smoothed coastline
+ */
+export function drawCellLayers(
+  ctx: CanvasRenderingContext2D,
+  mapWidth: number,
+  mapHeight: number,
+  cells: Cell[],
+  fills: (string | null)[],
+  overlayFills: (string | null)[] | null,
+  coast: CoastFills | null,
+  bounds?: MapBounds,
+  extent?: number
+): void {
+  ctx.fillStyle = HEIGHT_COLORS.deepWater;
+  ctx.fillRect(0, 0, mapWidth, mapHeight);
+
+  if (coast) {
+    drawCells(ctx, cells, coast.water, bounds, extent);
+    ctx.save();
+    ctx.clip(new Path2D(coast.shape));
+    drawCells(ctx, cells, coast.land, bounds, extent);
+    ctx.restore();
+  } else {
+    drawCells(ctx, cells, fills, bounds, extent);
+  }
+
+  if (overlayFills) {
+    ctx.globalAlpha = OVERLAY_OPACITY;
+    drawCells(ctx, cells, overlayFills, bounds, extent);
+    ctx.globalAlpha = 1;
+  }
+}
@@ -0,0 +1,179 @@
+import { CELL_FLAGS, cellNeighbors, type MeshGraph } from './mesh';
+
+declare module './voronoi' {
+  interface Cell {
+    temperature?: number; // Mean annual temperature in °C
+    precipitation?: number; // Mean annual precipitation in mm
+  }
+}
+
+export interface ClimateParams {
+  equatorTemperature: number; // Sea-level temperature at the equator (°C)
+  poleTemperature: number; // Sea-level temperature at the poles (°C)
+  lapseRate: number; // Cooling with altitude (°C per km)
+  precipitationScale: number; // Multiplier on all precipitation
+}
+
+export interface ClimateResult {
+  temperature: Float64Array; // °C per cell
+  precipitation: Float64Array; // mm/year per cell
+}
+
+// Height 1.0 corresponds to this altitude above sea level; altitude grows with
+// the square of height above sea level so lowlands stay low and peaks are sharp
+const MAX_ELEVATION_KM = 5;
+
+// Distance over which an air mass drops about 63% of its moisture on flat land (px)
+const RAIN_DECAY_DISTANCE = 400;
+
+// Extra fraction of moisture dropped per unit of height climbed (windward slopes)
+const OROGRAPHIC_RAIN = 2;
+
+// Fraction of rain over land that evaporates again and travels on (keeps interiors from drying out)
+const LAND_RECYCLING = 0.4;
+
+// Fraction of the missing moisture an air mass picks up over one cell of warm water
+const OCEAN_EVAPORATION = 0.3;
+
+// Precipitation in mm/year for an air mass dropping all its moisture over one rain decay distance
+const MM_PER_MOISTURE = 2000;
+
+/**
+ * Latitude of a y position in degrees from the equator (0 at mid-height, 90 at the top and bottom edges)
+ */
+export function latitudeAt(y: number, mapHeight: number): number {
+  const half = mapHeight / 2;
+  return Math.min(1, Math.abs(y - half) / half) * 90;
+}
+
+/**
+ * Sea-level temperature falls off with latitude, then altitude cools it by the lapse rate
+ */
+export function temperatureAt(latitude: number, elevationKm: number, params: ClimateParams): number {
+  const seaLevelTemperature =
+    params.poleTemperature +
+    (params.equatorTemperature - params.poleTemperature) * Math.cos((latitude * Math.PI) / 180);
+  return seaLevelTemperature - params.lapseRate * Math.max(0, elevationKm);
+}
+
+/**
+ * East-west component of the prevailing wind: negative for the trade winds
+ * and polar easterlies, positive for the mid-latitude westerlies
+ */
+function windDirection(latitude: number): number {
+  return -Math.sin((latitude * Math.PI) / 30);
+}
+
+/**
+ * Large-scale rainfall pattern of the circulation cells: wet at the equator
+ * and around 60°, dry in the subtropical highs and at the poles
+ */
+function latitudeRainFactor(latitude: number): number {
+  return 0.6 + 0.4 * Math.cos((latitude * Math.PI) / 30);
+}
+
+/**
+ * Carry moisture across the map in one wind direction (+1 east, -1 west)
+ * Cells are swept downwind so each one sees the air arriving from its upwind
+ * neighbors. Air refills over water (more over warm water), rains out
+ * steadily over land and heavily where it is forced uphill, leaving a rain
+ * shadow behind mountain ranges
+ */
+function sweepMoisture(
+  graph: MeshGraph,
+  surface: Float64Array,
+  temperature: Float64Array,
+  spacing: number,
+  direction: 1 | -1
+): Float64Array {
+  const { size, x, y, flags } = graph;
+  const moisture = new Float64Array(size);
+  const rain = new Float64Array(size);
+  const baseRain = 1 - Math.exp(-spacing / RAIN_DECAY_DISTANCE);
+
+  const order = Array.from({ length: size }, (_, i) => i);
+  order.sort((a, b) => direction * (x[a] - x[b]));
+
+  for (const cell of order) {
+    // Upwind neighbors weighted by how directly they lie against the wind
+    let incoming = 0;
+    let upwindHeight = 0;
+    let totalWeight = 0;
+    for (const neighbor of cellNeighbors(graph, cell)) {
+      const dx = x[neighbor] - x[cell];
+      const dy = y[neighbor] - y[cell];
+      const weight = (-direction * dx) / (Math.hypot(dx, dy) || 1);
+      if (weight <= 0) continue;
+      incoming += moisture[neighbor] * weight;
+      upwindHeight += surface[neighbor] * weight;
+      totalWeight += weight;
+    }
+
+    // Air enters from beyond the map edge fully saturated (the border is ocean)
+    if (totalWeight === 0) {
+      incoming = 1;
+      upwindHeight = surface[cell];
+    } else {
+      incoming /= totalWeight;
+      upwindHeight /= totalWeight;
+    }
+
+    if (flags[cell] & CELL_FLAGS.land) {
+      const rise = Math.max(0, surface[cell] - upwindHeight);
+      const dropped = incoming * Math.min(1, baseRain + OROGRAPHIC_RAIN * rise);
+      rain[cell] = dropped;
+      moisture[cell] = incoming - dropped * (1 - LAND_RECYCLING);
+    } else {
+      const warmth = Math.min(1, Math.max(0.1, (temperature[cell] + 10) / 40));
+      rain[cell] = incoming * baseRain;
+      moisture[cell] = incoming + (1 - incoming) * OCEAN_EVAPORATION * warmth;
+    }
+  }
+
+  return rain;
+}
+
+/**
+ * Climate stage: temperature from latitude and altitude, precipitation from
+ * moisture carried by the prevailing wind bands
+ * Reads heights and land flags from the graph, which must be in sync with the cells
+ */
+export function generateClimate(
+  graph: MeshGraph,
+  mapWidth: number,
+  mapHeight: number,
+  seaLevel: number,
+  params: ClimateParams
+): ClimateResult {
+  const { size, y, heights, flags } = graph;
+  const temperature = new Float64Array(size);
+  const precipitation = new Float64Array(size);
+  const surface = new Float64Array(size);
+  const latitude = new Float64Array(size);
+
+  for (let i = 0; i < size; i++) {
+    const isLand = (flags[i] & CELL_FLAGS.land) !== 0;
+    const elevation = isLand ? Math.max(0, heights[i] - seaLevel) / (1 - seaLevel) : 0;
+    surface[i] = elevation;
+    latitude[i] = latitudeAt(y[i], mapHeight);
+    temperature[i] = temperatureAt(latitude[i], elevation * elevation * MAX_ELEVATION_KM, params);
+  }
+
+  // Average spacing between cell sites, so rainfall per cell is resolution independent
+  const spacing = Math.sqrt((mapWidth * mapHeight) / Math.max(1, size));
+  const eastward = sweepMoisture(graph, surface, temperature, spacing, 1);
+  const westward = sweepMoisture(graph, surface, temperature, spacing, -1);
+
+  for (let i = 0; i < size; i++) {
+    // Blend the two sweeps by the local wind so band boundaries stay smooth
+    const eastWeight = (1 + windDirection(latitude[i])) / 2;
+    const rain = eastward[i] * eastWeight + westward[i] * (1 - eastWeight);
+    precipitation[i] =
+      (rain / (1 - Math.exp(-spacing / RAIN_DECAY_DISTANCE))) *
+      latitudeRainFactor(latitude[i]) *
+      MM_PER_MOISTURE *
+      params.precipitationScale;
+  }
+
+  return { temperature, precipitation };
+}
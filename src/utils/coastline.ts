@@ -1,3 +1,4 @@
+import { CELL_FLAGS, cellNeighbors, type MeshGraph } from './mesh';
 import type { Cell } from './voronoi';
 
 const PRECISION = 2;
@@ -18,23 +19,50 @@ export interface Feature {
   border: boolean;
   name?: string;
   size?: number;
-  boundary?: [number, number][];
+  rings?: CoastlineRing[]; // Coastline of land features, traced from the cells
   cells: number[]; // Array of cell IDs belonging to this feature
 }
 
+export interface CoastlineRing {
+  points: [number, number][]; // The first point isn't repeated at the end
+  hole: boolean; // Shore of water enclosed by the feature (a lake) rather than its outer coast
+  closed: boolean; // False for chains that ran into a dead end; see CoastlineDiagnostic
+}
+
+/**
+ * A coastline chain that couldn't be closed into a ring
+ */
+export interface CoastlineDiagnostic {
+  featureId: number;
+  start: [number, number];
+  end: [number, number];
+  points: number;
+}
+
 /**
  * Find coastal edges using unique-edge counting method
  * More robust than shared edge detection
  * Now includes explicit map border edges
+ * Each edge remembers the land cell it came from, so no polygon search is needed
+ * landCellIds restricts the scan to whole landmasses (e.g. the ones just edited)
+ * Land flags and neighbors come from the graph, which must be in sync with
+ * the cells; polygons and feature ids come from the cells
  */
-export function findCoastalEdges(cells: Cell[], width: number, height: number): CoastlineSegment[] {
+export function findCoastalEdges(
+  graph: MeshGraph,
+  cells: Cell[],
+  width: number,
+  height: number,
+  landCellIds?: number[]
+): CoastlineSegment[] {
   const segments: CoastlineSegment[] = [];
-  const edgeMap = new Map<string, number>(); // key = "x1,y1|x2,y2", count occurrences
+  const scanCells = (landCellIds ? landCellIds.map(id => cells[id]) : cells)
+    .filter(cell => isLandCell(graph, cell.id) && cell.polygon && cell.polygon.length >= 3);
+  // key = "x1,y1|x2,y2", count occurrences and remember the owning land cell
+  const edgeMap = new Map<string, { count: number; cellId: number; start: [number, number]; end: [number, number] }>();
   
   // Build edge map: count occurrences of each edge across all land-cell polygons
-  for (const cell of cells) {
-    if (!cell.isLand || !cell.polygon || cell.polygon.length < 3) continue;
-    
+  for (const cell of scanCells) {
     const polygon = cell.polygon;
     for (let i = 0; i < polygon.length; i++) {
       const start = polygon[i];
@@ -47,50 +75,34 @@ export function findCoastalEdges(cells: Cell[], width: number, height: number):
         ? `${x1.toFixed(2)},${y1.toFixed(2)}|${x2.toFixed(2)},${y2.toFixed(2)}`
         : `${x2.toFixed(2)},${y2.toFixed(2)}|${x1.toFixed(2)},${y1.toFixed(2)}`;
       
-      edgeMap.set(key, (edgeMap.get(key) || 0) + 1);
+      const entry = edgeMap.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        edgeMap.set(key, { count: 1, cellId: cell.id, start, end });
+      }
     }
   }
   
   // Find edges that appear only once (unique edges = coastline)
-  for (const [edgeKey, count] of edgeMap.entries()) {
+  for (const { count, cellId, start, end } of edgeMap.values()) {
     if (count === 1) {
-      const [startStr, endStr] = edgeKey.split('|');
-      const start = startStr.split(',').map(Number) as [number, number];
-      const end = endStr.split(',').map(Number) as [number, number];
+      // Find the water cell on the other side of this edge
+      const waterCellId = findAdjacentWaterCell(graph, cellId, start, end, cells);
       
-      // Find the land cell that contains this edge
-      const landCell = cells.find(cell => 
-        cell.isLand && 
-        cell.polygon && 
-        cell.polygon.some((point, i) => {
-          const nextPoint = cell.polygon![(i + 1) % cell.polygon!.length];
-          return (point[0] === start[0] && point[1] === start[1] && 
-                  nextPoint[0] === end[0] && nextPoint[1] === end[1]) ||
-                 (point[0] === end[0] && point[1] === end[1] && 
-                  nextPoint[0] === start[0] && nextPoint[1] === start[1]);
-        })
-      );
-      
-      if (landCell) {
-        // Find the water cell on the other side of this edge
-        const waterCell = findAdjacentWaterCell(landCell, start, end, cells);
-        
-        if (waterCell) {
-          segments.push({
-            start,
-            end,
-            landCellId: landCell.id,
-            waterCellId: waterCell.id
-          });
-        }
+      if (waterCellId !== -1) {
+        segments.push({
+          start,
+          end,
+          landCellId: cellId,
+          waterCellId
+        });
       }
     }
   }
   
   // Now add explicit map border edges
-  for (const cell of cells) {
-    if (!cell.isLand || !cell.polygon || cell.polygon.length < 3) continue;
-    
+  for (const cell of scanCells) {
     const polygon = cell.polygon;
     for (let i = 0; i < polygon.length; i++) {
       const start = polygon[i];
@@ -130,18 +142,19 @@ export function findCoastalEdges(cells: Cell[], width: number, height: number):
 }
 
 /**
- * Find a water cell adjacent to the given edge
+ * Find the water cell adjacent to the given edge of a land cell (-1 for none)
  */
 function findAdjacentWaterCell(
-  landCell: Cell, 
+  graph: MeshGraph,
+  landCellId: number,
   edgeStart: [number, number], 
   edgeEnd: [number, number], 
   cells: Cell[]
-): Cell | null {
+): number {
   // Check neighbors of the land cell
-  for (const neighborId of landCell.neighbors) {
-    const neighbor = cells.find(c => c.id === neighborId);
-    if (neighbor && !neighbor.isLand) {
+  for (const neighborId of cellNeighbors(graph, landCellId)) {
+    if (!isLandCell(graph, neighborId)) {
+      const neighbor = cells[neighborId];
       // Check if this neighbor shares the edge
       if (neighbor.polygon) {
         for (let i = 0; i < neighbor.polygon.length; i++) {
@@ -152,21 +165,23 @@ function findAdjacentWaterCell(
                nextPoint[0] === edgeEnd[0] && nextPoint[1] === edgeEnd[1]) ||
               (point[0] === edgeEnd[0] && point[1] === edgeEnd[1] && 
                nextPoint[0] === edgeStart[0] && nextPoint[1] === edgeStart[1])) {
-            return neighbor;
+            return neighborId;
           }
         }
       }
     }
   }
   
-  return null;
+  return -1;
 }
 
 /**
  * Mark cells as coastal (land cells adjacent to water)
+ * cellIds limits the update to the given cells
  */
-export function markCoastalCells(cells: Cell[]): void {
-  cells.forEach(cell => {
+export function markCoastalCells(cells: Cell[], cellIds?: number[]): void {
+  const targets = cellIds ? cellIds.map(id => cells[id]) : cells;
+  targets.forEach(cell => {
     if (!cell.isLand) {
       cell.isCoastal = false;
       cell.coastalNeighborsCount = 0;
@@ -175,8 +190,7 @@ export function markCoastalCells(cells: Cell[]): void {
     
     let coastalCount = 0;
     for (const neighborId of cell.neighbors) {
-      const neighbor = cells.find(c => c.id === neighborId);
-      if (neighbor && !neighbor.isLand) {
+      if (!cells[neighborId].isLand) {
         coastalCount++;
       }
     }
@@ -187,69 +201,73 @@ export function markCoastalCells(cells: Cell[]): void {
 }
 
 /**
- * Label connected regions using flood-fill (BFS)
+ * Label connected regions of the graph using flood-fill (BFS)
+ * Reads land flags from the graph, which must be in sync with the cells;
+ * the cells' featureId fields are left to assignFeatureIds()
  */
-export function labelFeatures(cells: Cell[], width: number, height: number): Feature[] {
+export function labelFeatures(graph: MeshGraph, width: number, height: number): Feature[] {
+  // Feature id of every labeled cell, -1 until it is reached
+  const featureOf = new Int32Array(graph.size).fill(-1);
   const features: Feature[] = [];
-  let nextFeatureId = 0;
-  
-  // Reset feature assignments
-  cells.forEach(cell => {
-    cell.featureId = undefined;
-  });
   
   // 1. Label Ocean (start from border water cells)
-  const oceanFeature = labelOcean(cells, width, height, nextFeatureId++);
-  features.push(oceanFeature);
+  features.push(labelOcean(graph, featureOf, width, height, features.length));
   
   // 2. Label remaining water as Lakes
-  const lakeFeatures = labelLakes(cells, nextFeatureId);
-  features.push(...lakeFeatures);
-  nextFeatureId += lakeFeatures.length;
+  features.push(...labelLakes(graph, featureOf, features.length));
   
   // 3. Label land as Islands/Continents
-  const islandFeatures = labelIslands(cells, width, height, nextFeatureId);
-  features.push(...islandFeatures);
+  features.push(...labelIslands(graph, featureOf, width, height, features.length));
   
   return features;
 }
 
+/**
+ * Point every cell's featureId at the feature holding it (undefined for none)
+ */
+export function assignFeatureIds(cells: Cell[], features: Feature[]): void {
+  for (const cell of cells) cell.featureId = undefined;
+  for (const feature of features) {
+    for (const cellId of feature.cells) cells[cellId].featureId = feature.id;
+  }
+}
+
+function isLandCell(graph: MeshGraph, id: number): boolean {
+  return (graph.flags[id] & CELL_FLAGS.land) !== 0;
+}
+
+/**
+ * Flood-fill unlabeled cells of the same kind (land or water) as the start
+ * cell, giving them featureId; returns the cells reached
+ */
+function floodFeature(graph: MeshGraph, featureOf: Int32Array, startId: number, featureId: number): number[] {
+  const land = isLandCell(graph, startId);
+  // Head pointer instead of queue.shift() keeps the BFS linear
+  const queue = [startId];
+  featureOf[startId] = featureId;
+  
+  for (let head = 0; head < queue.length; head++) {
+    for (const neighborId of cellNeighbors(graph, queue[head])) {
+      if (featureOf[neighborId] === -1 && isLandCell(graph, neighborId) === land) {
+        featureOf[neighborId] = featureId;
+        queue.push(neighborId);
+      }
+    }
+  }
+  
+  return queue;
+}
+
 /**
  * Label the ocean (all water connected to map borders)
  */
-function labelOcean(cells: Cell[], width: number, height: number, featureId: number): Feature {
+function labelOcean(graph: MeshGraph, featureOf: Int32Array, width: number, height: number, featureId: number): Feature {
   const oceanCells: number[] = [];
-  const visited = new Set<number>();
-  
-  // Find border water cells to start flood-fill
-  const borderWaterCells = cells.filter(cell => 
-    !cell.isLand && (
-      cell.centroid[0] <= 10 || cell.centroid[0] >= width - 10 ||
-      cell.centroid[1] <= 10 || cell.centroid[1] >= height - 10
-    )
-  );
   
   // Flood-fill from border water cells
-  for (const startCell of borderWaterCells) {
-    if (visited.has(startCell.id)) continue;
-    
-    const queue = [startCell];
-    visited.add(startCell.id);
-    
-    while (queue.length > 0) {
-      const cell = queue.shift()!;
-      oceanCells.push(cell.id);
-      cell.featureId = featureId;
-      
-      // Add unvisited water neighbors
-      for (const neighborId of cell.neighbors) {
-        const neighbor = cells.find(c => c.id === neighborId);
-        if (neighbor && !neighbor.isLand && !visited.has(neighbor.id)) {
-          visited.add(neighbor.id);
-          queue.push(neighbor);
-        }
-      }
-    }
+  for (let i = 0; i < graph.size; i++) {
+    if (isLandCell(graph, i) || featureOf[i] !== -1 || !isNearMapEdge(graph.x[i], graph.y[i], width, height)) continue;
+    oceanCells.push(...floodFeature(graph, featureOf, i, featureId));
   }
   
   return {
@@ -257,7 +275,6 @@ function labelOcean(cells: Cell[], width: number, height: number, featureId: num
     type: 'ocean',
     land: false,
     border: true,
-    name: 'Ocean',
     size: oceanCells.length,
     cells: oceanCells
   };
@@ -266,42 +283,20 @@ function labelOcean(cells: Cell[], width: number, height: number, featureId: num
 /**
  * Label remaining water as lakes
  */
-function labelLakes(cells: Cell[], startFeatureId: number): Feature[] {
+function labelLakes(graph: MeshGraph, featureOf: Int32Array, startFeatureId: number): Feature[] {
   const lakeFeatures: Feature[] = [];
-  const visited = new Set<number>();
   let nextFeatureId = startFeatureId;
   
-  // Find unvisited water cells (these must be lakes)
-  for (const cell of cells) {
-    if (cell.isLand || visited.has(cell.id) || cell.featureId !== undefined) continue;
-    
-    // Start flood-fill for new lake
-    const lakeCells: number[] = [];
-    const queue = [cell];
-    visited.add(cell.id);
-    
-    while (queue.length > 0) {
-      const currentCell = queue.shift()!;
-      lakeCells.push(currentCell.id);
-      currentCell.featureId = nextFeatureId;
-      
-      // Add unvisited water neighbors
-      for (const neighborId of currentCell.neighbors) {
-        const neighbor = cells.find(c => c.id === neighborId);
-        if (neighbor && !neighbor.isLand && !visited.has(neighbor.id)) {
-          visited.add(neighbor.id);
-          queue.push(neighbor);
-        }
-      }
-    }
+  // Unlabeled water cells left after the ocean must be lakes
+  for (let i = 0; i < graph.size; i++) {
+    if (isLandCell(graph, i) || featureOf[i] !== -1) continue;
     
-    // Create lake feature
+    const lakeCells = floodFeature(graph, featureOf, i, nextFeatureId);
     lakeFeatures.push({
       id: nextFeatureId,
       type: 'lake',
       land: false,
       border: false,
-      name: `Lake ${lakeFeatures.length + 1}`,
       size: lakeCells.length,
       cells: lakeCells
     });
@@ -315,51 +310,21 @@ function labelLakes(cells: Cell[], startFeatureId: number): Feature[] {
 /**
  * Label land as islands/continents
  */
-function labelIslands(cells: Cell[], width: number, height: number, startFeatureId: number): Feature[] {
+function labelIslands(graph: MeshGraph, featureOf: Int32Array, width: number, height: number, startFeatureId: number): Feature[] {
   const islandFeatures: Feature[] = [];
-  const visited = new Set<number>();
   let nextFeatureId = startFeatureId;
   
-  // Find unvisited land cells
-  for (const cell of cells) {
-    if (!cell.isLand || visited.has(cell.id) || cell.featureId !== undefined) continue;
-    
-    // Start flood-fill for new island/continent
-    const islandCells: number[] = [];
-    const queue = [cell];
-    visited.add(cell.id);
+  for (let i = 0; i < graph.size; i++) {
+    if (!isLandCell(graph, i) || featureOf[i] !== -1) continue;
     
-    while (queue.length > 0) {
-      const currentCell = queue.shift()!;
-      islandCells.push(currentCell.id);
-      currentCell.featureId = nextFeatureId;
-      
-      // Add unvisited land neighbors
-      for (const neighborId of currentCell.neighbors) {
-        const neighbor = cells.find(c => c.id === neighborId);
-        if (neighbor && neighbor.isLand && !visited.has(neighbor.id)) {
-          visited.add(neighbor.id);
-          queue.push(neighbor);
-        }
-      }
-    }
-    
-    // Check if this landmass touches the border
-    const touchesBorder = islandCells.some(cellId => {
-      const landCell = cells.find(c => c.id === cellId);
-      return landCell && (
-        landCell.centroid[0] <= 10 || landCell.centroid[0] >= width - 10 ||
-        landCell.centroid[1] <= 10 || landCell.centroid[1] >= height - 10
-      );
-    });
-    
-    // Create island/continent feature
+    const islandCells = floodFeature(graph, featureOf, i, nextFeatureId);
+    // Whether this landmass touches the border
+    const touchesBorder = islandCells.some(cellId => isNearMapEdge(graph.x[cellId], graph.y[cellId], width, height));
     islandFeatures.push({
       id: nextFeatureId,
       type: 'island',
       land: true,
       border: touchesBorder,
-      name: touchesBorder ? `Continent ${islandFeatures.length + 1}` : `Island ${islandFeatures.length + 1}`,
       size: islandCells.length,
       cells: islandCells
     });
@@ -370,19 +335,131 @@ function labelIslands(cells: Cell[], width: number, height: number, startFeature
   return islandFeatures;
 }
 
+function isNearMapEdge(x: number, y: number, width: number, height: number): boolean {
+  return x <= 10 || x >= width - 10 || y <= 10 || y >= height - 10;
+}
+
 /**
- * Assemble coastline segments into continuous closed loops for each feature
+ * Relabel only the features around cells whose land/water state flipped
+ * Every feature touching a flipped cell or its neighbors is flood-filled again
+ * within its own cells; the rest keep their ids. The largest new piece of each
+ * type inherits the id and name of the largest old one, so a landmass keeps
+ * its name while its coast is being edited; new pieces are left unnamed
+ * (see nameFeatures)
+ * Reads land flags from the graph, which must already hold the flipped cells
+ * Returns the updated feature list and the features that were rebuilt
+ */
+export function relabelRegion(
+  graph: MeshGraph,
+  cells: Cell[],
+  features: Feature[],
+  flippedCellIds: number[],
+  width: number,
+  height: number
+): { features: Feature[]; changed: Feature[] } {
+  const affectedIds = new Set<number>();
+  for (const cellId of flippedCellIds) {
+    for (const id of [cellId, ...cellNeighbors(graph, cellId)]) {
+      const featureId = cells[id].featureId;
+      if (featureId !== undefined) affectedIds.add(featureId);
+    }
+  }
+
+  const affected = features.filter(feature => affectedIds.has(feature.id));
+  const kept = features.filter(feature => !affectedIds.has(feature.id));
+
+  // Only region cells start unlabeled (-1), so the flood never leaves the region
+  const pieceOf = new Int32Array(graph.size);
+  for (const feature of affected) {
+    for (const cellId of feature.cells) pieceOf[cellId] = -1;
+  }
+
+  // Flood-fill connected pieces of the region
+  const pieces: { cells: number[]; land: boolean; border: boolean }[] = [];
+  for (const feature of affected) {
+    for (const startId of feature.cells) {
+      if (pieceOf[startId] !== -1) continue;
+
+      const pieceCells = floodFeature(graph, pieceOf, startId, pieces.length);
+      pieces.push({
+        cells: pieceCells,
+        land: isLandCell(graph, startId),
+        border: pieceCells.some(cellId => isNearMapEdge(graph.x[cellId], graph.y[cellId], width, height))
+      });
+    }
+  }
+
+  let nextFeatureId = Math.max(-1, ...features.map(feature => feature.id)) + 1;
+  const changed: Feature[] = [];
+
+  // All water reaching the map edge is one ocean, as in labelFeatures
+  const oceanPieces = pieces.filter(piece => !piece.land && piece.border);
+  if (oceanPieces.length > 0) {
+    const oldOcean = features.find(feature => feature.type === 'ocean');
+    const oceanCells = oceanPieces.flatMap(piece => piece.cells);
+    if (oldOcean && !affectedIds.has(oldOcean.id)) {
+      kept.splice(kept.indexOf(oldOcean), 1);
+      oceanCells.push(...oldOcean.cells);
+    }
+    changed.push({
+      id: oldOcean ? oldOcean.id : nextFeatureId++,
+      type: 'ocean',
+      land: false,
+      border: true,
+      name: oldOcean?.name,
+      size: oceanCells.length,
+      cells: oceanCells
+    });
+  }
+
+  for (const type of ['lake', 'island'] as const) {
+    const typePieces = pieces
+      .filter(piece => (type === 'island' ? piece.land : !piece.land && !piece.border))
+      .sort((a, b) => b.cells.length - a.cells.length);
+    const previous = affected
+      .filter(feature => feature.type === type)
+      .sort((a, b) => b.cells.length - a.cells.length);
+
+    typePieces.forEach((piece, i) => {
+      const inherited = previous[i];
+      changed.push({
+        id: inherited ? inherited.id : nextFeatureId++,
+        type,
+        land: piece.land,
+        border: piece.border,
+        name: inherited?.name,
+        size: piece.cells.length,
+        cells: piece.cells
+      });
+    });
+  }
+
+  for (const feature of changed) {
+    for (const cellId of feature.cells) cells[cellId].featureId = feature.id;
+  }
+
+  return {
+    features: [...kept, ...changed].sort((a, b) => a.id - b.id),
+    changed
+  };
+}
+
+/**
+ * Assemble coastline segments into every ring of each land feature
+ * Rings wind with the land on their left, so outer coasts have a positive
+ * and lake shores (holes) a negative shoelace area in map coordinates.
+ * Chains that can't be closed are kept as open rings and reported
  */
 export function buildCoastlinePaths(
   segments: CoastlineSegment[], 
   features: Feature[], 
   cells: Cell[]
-): void {
+): CoastlineDiagnostic[] {
   // Group segments by the land feature they border
   const segmentsByFeature = new Map<number, CoastlineSegment[]>();
   
   for (const segment of segments) {
-    const landCell = cells.find(c => c.id === segment.landCellId);
+    const landCell = cells[segment.landCellId];
     if (landCell && landCell.featureId !== undefined) {
       if (!segmentsByFeature.has(landCell.featureId)) {
         segmentsByFeature.set(landCell.featureId, []);
@@ -391,120 +468,201 @@ export function buildCoastlinePaths(
     }
   }
 
-  // Build boundary for each feature
+  const diagnostics: CoastlineDiagnostic[] = [];
+
+  // Build rings for each feature
   for (const feature of features) {
-    if (feature.type === 'ocean') continue; // Ocean doesn't need a coastline boundary
+    if (feature.type === 'ocean') continue; // Ocean doesn't need a coastline
     
     const featureSegments = segmentsByFeature.get(feature.id) || [];
-    if (featureSegments.length > 0) {
-      feature.boundary = assembleBoundaryLoop(featureSegments);
+    if (featureSegments.length === 0) {
+      feature.rings = undefined;
+      continue;
+    }
+
+    feature.rings = assembleRings(featureSegments, cells);
+    for (const ring of feature.rings) {
+      if (ring.closed) continue;
+      diagnostics.push({
+        featureId: feature.id,
+        start: ring.points[0],
+        end: ring.points[ring.points.length - 1],
+        points: ring.points.length
+      });
     }
   }
+
+  return diagnostics;
 }
 
 /**
- * Assemble segments into a continuous path using open-chain walker
- * Handles both closed loops and open chains (continental coasts)
+ * Orient each segment with its land cell on the left and chain them into rings,
+ * largest outer ring first and holes after the outer rings
  */
-function assembleBoundaryLoop(segments: CoastlineSegment[]): [number, number][] {
-  if (segments.length === 0) return [];
-  
-  const PRECISION = 2;
-  
-  function norm([x, y]: [number, number]): string {
-    return `${x.toFixed(PRECISION)},${y.toFixed(PRECISION)}`;
+function assembleRings(segments: CoastlineSegment[], cells: Cell[]): CoastlineRing[] {
+  const edges = segments.map(({ start, end, landCellId }): [[number, number], [number, number]] => {
+    const [x, y] = cells[landCellId].centroid;
+    const cross = (end[0] - start[0]) * (y - start[1]) - (end[1] - start[1]) * (x - start[0]);
+    return cross >= 0 ? [start, end] : [end, start];
+  });
+
+  return chainEdges(edges)
+    .map(({ points, closed }) => {
+      const area = ringArea(points);
+      return { points, closed, hole: closed && area < 0, area: Math.abs(area) };
+    })
+    .sort((a, b) => Number(a.hole) - Number(b.hole) || b.area - a.area)
+    .map(({ points, closed, hole }) => ({ points, closed, hole }));
+}
+
+/**
+ * Chain directed edges into rings
+ * An edge and its reverse cancel out and repeated edges count once, so the
+ * edges of adjacent polygons can be passed as they are. Where several edges
+ * leave one vertex (rings touching at a point) the sharpest right turn is
+ * taken, which keeps rings with their interior on the left apart.
+ * Leftover chains that don't return to their start come back with closed: false
+ */
+export function chainEdges(edges: [[number, number], [number, number]][]): { points: [number, number][]; closed: boolean }[] {
+  interface DirectedEdge {
+    from: [number, number];
+    to: [number, number];
+    toKey: string;
   }
-  
-  // 1) Dedupe by normalized keys
-  const seen = new Set<string>();
-  const dedupedSegments: CoastlineSegment[] = [];
-  
-  for (const seg of segments) {
-    const k1 = `${norm(seg.start)}|${norm(seg.end)}`;
-    const k2 = `${norm(seg.end)}|${norm(seg.start)}`;
-    if (!seen.has(k1) && !seen.has(k2)) {
-      seen.add(k1);
-      seen.add(k2);
-      dedupedSegments.push(seg);
-    }
+
+  const key = ([x, y]: [number, number]) => `${x.toFixed(PRECISION)},${y.toFixed(PRECISION)}`;
+  const unique = new Map<string, DirectedEdge & { fromKey: string }>();
+
+  for (const [from, to] of edges) {
+    const fromKey = key(from);
+    const toKey = key(to);
+    if (fromKey === toKey) continue;
+
+    const reverse = `${toKey}|${fromKey}`;
+    if (unique.has(reverse)) unique.delete(reverse);
+    else unique.set(`${fromKey}|${toKey}`, { from, to, fromKey, toKey });
   }
-  
-  if (dedupedSegments.length === 0) return [];
-  
-  // 2) Build Map<vertexKey, neighborPoints>
-  const adj = new Map<string, [number, number][]>();
-  
-  for (const { start, end } of dedupedSegments) {
-    const k1 = norm(start), k2 = norm(end);
-    if (!adj.has(k1)) adj.set(k1, []);
-    if (!adj.has(k2)) adj.set(k2, []);
-    adj.get(k1)!.push(end);
-    adj.get(k2)!.push(start);
+
+  const outgoing = new Map<string, DirectedEdge[]>();
+  const incoming = new Map<string, number>();
+  for (const { from, to, fromKey, toKey } of unique.values()) {
+    if (!outgoing.has(fromKey)) outgoing.set(fromKey, []);
+    outgoing.get(fromKey)!.push({ from, to, toKey });
+    incoming.set(toKey, (incoming.get(toKey) ?? 0) + 1);
   }
-  
-  // 3) Find endpoints (degree === 1)
-  const endpoints: string[] = [];
-  for (const [vertex, neighbors] of adj.entries()) {
-    if (neighbors.length === 1) {
-      endpoints.push(vertex);
+
+  const takeNext = (arriving: DirectedEdge | null, candidates: DirectedEdge[]): DirectedEdge => {
+    let best = 0;
+    if (arriving && candidates.length > 1) {
+      const back = Math.atan2(arriving.from[1] - arriving.to[1], arriving.from[0] - arriving.to[0]);
+      let bestTurn = Infinity;
+      candidates.forEach(({ from, to }, i) => {
+        // Clockwise sweep from the direction we came from
+        let turn = back - Math.atan2(to[1] - from[1], to[0] - from[0]);
+        while (turn <= 0) turn += Math.PI * 2;
+        while (turn > Math.PI * 2) turn -= Math.PI * 2;
+        if (turn < bestTurn) {
+          bestTurn = turn;
+          best = i;
+        }
+      });
+    }
+    return candidates.splice(best, 1)[0];
+  };
+
+  const walk = (startKey: string, open: boolean) => {
+    const points: [number, number][] = [];
+    let currentKey = startKey;
+    let arriving: DirectedEdge | null = null;
+
+    for (;;) {
+      const candidates = outgoing.get(currentKey);
+      if (!candidates || candidates.length === 0) {
+        if (arriving) points.push(arriving.to);
+        return { points, closed: false };
+      }
+      const edge = takeNext(arriving, candidates);
+      points.push(edge.from);
+      currentKey = edge.toKey;
+      arriving = edge;
+      if (!open && currentKey === startKey) return { points, closed: true };
+    }
+  };
+
+  const rings: { points: [number, number][]; closed: boolean }[] = [];
+
+  // Open chains start where more edges leave a vertex than arrive
+  for (const [vertex, candidates] of outgoing) {
+    let surplus = candidates.length - (incoming.get(vertex) ?? 0);
+    while (surplus-- > 0 && candidates.length > 0) rings.push(walk(vertex, true));
+  }
+
+  // Everything left forms loops
+  for (const [vertex, candidates] of outgoing) {
+    while (candidates.length > 0) {
+      const ring = walk(vertex, false);
+      if (ring.points.length >= (ring.closed ? 3 : 2)) rings.push(ring);
     }
   }
-  
-  // 4) Pick start: first endpoint if two exist, else lowest (minY, minX)
-  let startKey: string;
-  if (endpoints.length >= 2) {
-    // Open chain - start from first endpoint
-    startKey = endpoints[0];
-  } else {
-    // Closed loop - pick lowest vertex
-    const verts = Array.from(adj.entries()).map(([k, neigh]) => {
-      const [x, y] = k.split(',').map(Number);
-      return { key: k, x, y, neighbors: neigh };
+
+  return rings;
+}
+
+/**
+ * Closed outline rings of a set of cells, outer rings with positive and holes
+ * with negative signed area
+ * Every cell polygon is walked with the same winding, so edges shared by two
+ * cells of the set cancel out
+ */
+export function traceCellOutline(cells: Cell[], cellIds: number[]): [number, number][][] {
+  const edges: [[number, number], [number, number]][] = [];
+
+  for (const id of cellIds) {
+    const polygon = cells[id].polygon;
+    if (polygon.length < 3) continue;
+    const points = ringArea(polygon) < 0 ? polygon.slice().reverse() : polygon;
+    for (let i = 0; i < points.length; i++) edges.push([points[i], points[(i + 1) % points.length]]);
+  }
+
+  // Cell polygons tile the map, so every chain closes
+  return chainEdges(edges)
+    .filter(ring => ring.closed && ring.points.length >= 3)
+    .map(ring => ring.points);
+}
+
+/**
+ * Area (square map pixels) and outline length of a feature, map border included
+ */
+export function featureMetrics(feature: Feature, cells: Cell[]): { area: number; perimeter: number } {
+  let area = 0;
+  let perimeter = 0;
+  for (const ring of traceCellOutline(cells, feature.cells)) {
+    area += ringArea(ring);
+    ring.forEach(([x1, y1], i) => {
+      const [x2, y2] = ring[(i + 1) % ring.length];
+      perimeter += Math.hypot(x2 - x1, y2 - y1);
     });
-    
-    if (verts.length === 0) return [];
-    
-    verts.sort((a, b) => a.y - b.y || a.x - b.x);
-    startKey = verts[0].key;
   }
-  
-  // 5) Walk: at each step pick neighbor ≠ prevKey; stop on no neighbor (open) or back to start (closed)
-  const path: [number, number][] = [];
-  let prevKey: string | null = null;
-  let currKey = startKey;
-  const visited = new Set<string>();
-  
-  do {
-    // Add current point to path
-    const [cx, cy] = currKey.split(',').map(Number);
-    path.push([cx, cy]);
-    visited.add(currKey);
-    
-    const neighbors = adj.get(currKey)!;
-    // Pick the next vertex that isn't the one we just came from
-    const nextKey = neighbors
-      .map(p => norm(p))
-      .find(k => k !== prevKey && !visited.has(k));
-    
-    // Safety check - if no valid next key, break to avoid infinite loop
-    if (!nextKey) {
-      break;
-    }
-    
-    prevKey = currKey;
-    currKey = nextKey;
-    
-    // Safety to avoid infinite loop
-    if (path.length > dedupedSegments.length + 2) break;
-  } while (currKey !== startKey && !visited.has(currKey));
-  
-  return path;
+  return { area, perimeter };
+}
+
+/**
+ * Signed shoelace area; positive when the ring turns from +x towards +y
+ */
+export function ringArea(points: [number, number][]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
 }
 
 /**
  * Convert boundary coordinates to SVG path string
  */
-export function boundaryToSVGPath(boundary: [number, number][]): string {
+export function boundaryToSVGPath(boundary: [number, number][], closed: boolean = true): string {
   if (boundary.length === 0) return '';
   
   // Create a single path with move-to, line-to, and close commands
@@ -516,7 +674,7 @@ export function boundaryToSVGPath(boundary: [number, number][]): string {
     }
   });
   
-  return pathParts.join(' ') + ' Z';
+  return closed ? pathParts.join(' ') + ' Z' : pathParts.join(' ');
 }
 
 // Extend the Cell interface to include coastal properties
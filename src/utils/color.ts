@@ -1,4 +1,5 @@
 import type { Cell } from './voronoi';
+import type { Feature } from './coastline';
 
 /**
  * Color scheme for the heightmap
@@ -11,14 +12,21 @@ export const HEIGHT_COLORS = {
   peak: '#ffffff'          // White
 };
 
+/**
+ * Lake fills, distinct from the open ocean
+ */
+export const LAKE_COLORS = {
+  freshwater: '#3b74c9', // Bright blue
+  saltwater: '#4f9a94',  // Teal
+  shore: '#1d4f91'       // Lake outline
+};
+
 /**
  * Map height to color using a custom gradient
  */
 export function heightToColor(height: number, seaLevel: number): string {
   if (height < seaLevel) {
-    // Water gradient
-    const waterRatio = height / seaLevel;
-    return interpolateColor(HEIGHT_COLORS.deepWater, HEIGHT_COLORS.shallowWater, waterRatio);
+    return depthToColor(height, seaLevel);
   } else {
     // Land gradient
     const landRatio = (height - seaLevel) / (1 - seaLevel);
@@ -34,6 +42,60 @@ export function heightToColor(height: number, seaLevel: number): string {
   }
 }
 
+/**
+ * Water gradient from deep (height 0) to shallow (at the sea surface)
+ */
+export function depthToColor(height: number, surface: number): string {
+  const ratio = surface > 0 ? Math.min(1, Math.max(0, height / surface)) : 0;
+  return interpolateColor(HEIGHT_COLORS.deepWater, HEIGHT_COLORS.shallowWater, ratio);
+}
+
+/**
+ * Color stops for the climate overlays, from low to high values
+ */
+const TEMPERATURE_STOPS: [number, string][] = [
+  [-30, '#3b4cc0'], // Deep blue
+  [0, '#f7f7f7'],   // White
+  [15, '#f4c542'],  // Yellow
+  [30, '#b40426']   // Red
+];
+
+const PRECIPITATION_STOPS: [number, string][] = [
+  [0, '#d8b365'],    // Sand
+  [750, '#a6d96a'],  // Light green
+  [1500, '#1a9850'], // Green
+  [3000, '#2166ac']  // Blue
+];
+
+/**
+ * Overlay color for a mean annual temperature in °C
+ */
+export function temperatureToColor(temperature: number): string {
+  return colorFromStops(TEMPERATURE_STOPS, temperature);
+}
+
+/**
+ * Overlay color for a mean annual precipitation in mm
+ */
+export function precipitationToColor(precipitation: number): string {
+  return colorFromStops(PRECIPITATION_STOPS, precipitation);
+}
+
+/**
+ * Piecewise-linear color ramp, clamped at both ends
+ */
+function colorFromStops(stops: [number, string][], value: number): string {
+  if (value <= stops[0][0]) return stops[0][1];
+  for (let i = 1; i < stops.length; i++) {
+    const [upper, upperColor] = stops[i];
+    if (value <= upper) {
+      const [lower, lowerColor] = stops[i - 1];
+      return interpolateColor(lowerColor, upperColor, (value - lower) / (upper - lower));
+    }
+  }
+  return stops[stops.length - 1][1];
+}
+
 /**
  * Interpolate between two hex colors
  */
@@ -55,18 +117,32 @@ function interpolateColor(color1: string, color2: string, ratio: number): string
 
 /**
  * Apply colors to all cells based on their heights and land status
+ * Water is shaded by depth below surface, the height separating land from
+ * water (see seaSurfaceHeight), which may lie below the nominal sea level
  */
-export function applyColorsToCells(cells: Cell[], seaLevel: number): void {
+export function applyColorsToCells(cells: Cell[], seaLevel: number, surface: number = seaLevel): void {
   cells.forEach(cell => {
-    // If cell is explicitly marked as not land, force it to water color
+    // Cells explicitly marked as not land always get a water color
     if (cell.isLand === false) {
-      cell.color = HEIGHT_COLORS.deepWater;
+      cell.color = depthToColor(cell.height, surface);
     } else {
       cell.color = heightToColor(cell.height, seaLevel);
     }
   });
 }
 
+/**
+ * Color lake cells by water type, once hydrology has classified each lake
+ */
+export function applyLakeColors(cells: Cell[], lakes: Feature[]): void {
+  for (const lake of lakes) {
+    const color = lake.lake && !lake.lake.freshwater ? LAKE_COLORS.saltwater : LAKE_COLORS.freshwater;
+    for (const cellId of lake.cells) {
+      cells[cellId].color = color;
+    }
+  }
+}
+
 // Extend the Cell interface to include color
 declare module './voronoi' {
   interface Cell {
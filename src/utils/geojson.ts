@@ -0,0 +1,128 @@
+import { ringArea, traceCellOutline, type Feature } from './coastline';
+import type { World } from './world';
+
+type Position = [number, number];
+type Ring = Position[];
+
+/**
+ * Maps pixel (x, y) to (a·x + b·y + c, d·x + e·y + f), as in a world file
+ */
+export type AffineTransform = [number, number, number, number, number, number];
+
+/**
+ * Target coordinate extent [west, south, east, north] (e.g. degrees or meters)
+ */
+export type CoordinateExtent = [number, number, number, number];
+
+export interface GeoJSONGeometry {
+  type: 'Polygon' | 'MultiPolygon';
+  coordinates: Ring[] | Ring[][];
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id: number;
+  geometry: GeoJSONGeometry;
+  properties: {
+    id: number;
+    type: Feature['type'];
+    name: string | null;
+    size: number;
+    border: boolean;
+  };
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+}
+
+/**
+ * Transform stretching the map over an extent: the top-left corner lands on
+ * (west, north) and the bottom-right on (east, south), so y points up
+ */
+export function extentTransform(width: number, height: number, [west, south, east, north]: CoordinateExtent): AffineTransform {
+  return [(east - west) / width, 0, west, 0, (south - north) / height, north];
+}
+
+/**
+ * GeoJSON FeatureCollection with one Polygon/MultiPolygon per island and lake
+ * Outlines are traced from the cell polygons, so lakes (and anything else the
+ * feature surrounds) become holes. Coordinates stay in pixels unless a
+ * transform is given; rings follow the RFC 7946 right-hand rule either way
+ */
+export function worldToGeoJSON(world: World, transform?: AffineTransform): GeoJSONFeatureCollection {
+  const features: GeoJSONFeature[] = [];
+
+  for (const feature of world.features) {
+    if (feature.type === 'ocean') continue;
+
+    const rings = traceCellOutline(world.cells, feature.cells);
+    const polygons = groupRings(rings).map(polygon =>
+      polygon.map((ring, i) => orientRing(transform ? ring.map(point => applyTransform(transform, point)) : ring, i === 0))
+    );
+    if (polygons.length === 0) continue;
+
+    features.push({
+      type: 'Feature',
+      id: feature.id,
+      geometry: polygons.length === 1
+        ? { type: 'Polygon', coordinates: polygons[0] }
+        : { type: 'MultiPolygon', coordinates: polygons },
+      properties: {
+        id: feature.id,
+        type: feature.type,
+        name: feature.name ?? null,
+        size: feature.size ?? feature.cells.length,
+        border: feature.border
+      }
+    });
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Sort rings into polygons: each outer ring followed by the holes inside it
+ */
+function groupRings(rings: Ring[]): Ring[][] {
+  const outers = rings.filter(ring => ringArea(ring) > 0);
+  const holes = rings.filter(ring => ringArea(ring) < 0);
+  const polygons = outers.map(ring => [ring]);
+
+  for (const hole of holes) {
+    // Test the middle of an edge: hole vertices may touch the outer ring
+    const probe: Position = [(hole[0][0] + hole[1][0]) / 2, (hole[0][1] + hole[1][1]) / 2];
+    const candidates = polygons.filter(([outer]) => containsPoint(outer, probe));
+    if (candidates.length === 0) continue;
+    // Nested outers are possible only across touching rings; the smallest one is the host
+    candidates.sort((a, b) => Math.abs(ringArea(a[0])) - Math.abs(ringArea(b[0])));
+    candidates[0].push(hole);
+  }
+
+  return polygons;
+}
+
+/**
+ * Close the ring and wind it counterclockwise (outer) or clockwise (hole) with y pointing up
+ */
+function orientRing(ring: Ring, outer: boolean): Ring {
+  // Positive shoelace area is counterclockwise in a y-up frame
+  const closed = ringArea(ring) > 0 === outer ? ring.slice() : ring.slice().reverse();
+  closed.push(closed[0]);
+  return closed;
+}
+
+function applyTransform([a, b, c, d, e, f]: AffineTransform, [x, y]: Position): Position {
+  return [a * x + b * y + c, d * x + e * y + f];
+}
+
+function containsPoint(ring: Ring, [x, y]: Position): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
@@ -0,0 +1,98 @@
+import type { Cell } from './voronoi';
+
+/**
+ * Row-major grid of cell heights (0-1) sampled at pixel centers
+ */
+export interface HeightRaster {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Rasterize cell heights by scanline-filling each Voronoi polygon
+ * The raster is (mapWidth × scale) by (mapHeight × scale) pixels; a pixel
+ * takes the height of the cell containing its center
+ */
+export function rasterizeHeights(cells: Cell[], mapWidth: number, mapHeight: number, scale: number = 1): HeightRaster {
+  const width = Math.max(1, Math.round(mapWidth * scale));
+  const height = Math.max(1, Math.round(mapHeight * scale));
+  const data = new Float32Array(width * height);
+
+  for (const cell of cells) {
+    const { polygon } = cell;
+    if (polygon.length < 3) continue;
+
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const [, y] of polygon) {
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+
+    const firstRow = Math.max(0, Math.ceil(minY * scale - 0.5));
+    const lastRow = Math.min(height - 1, Math.floor(maxY * scale - 0.5));
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      const y = (row + 0.5) / scale;
+
+      // Voronoi cells are convex, so each row crosses the polygon in a single span
+      let left = Infinity;
+      let right = -Infinity;
+      for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        if ((y1 <= y && y < y2) || (y2 <= y && y < y1)) {
+          const x = x1 + ((y - y1) / (y2 - y1)) * (x2 - x1);
+          left = Math.min(left, x);
+          right = Math.max(right, x);
+        }
+      }
+      if (left > right) continue;
+
+      // Half-open span so pixels on a shared edge belong to exactly one cell
+      const firstColumn = Math.max(0, Math.ceil(left * scale - 0.5));
+      const endColumn = Math.min(width, Math.ceil(right * scale - 0.5));
+      if (endColumn > firstColumn) {
+        data.fill(cell.height, row * width + firstColumn, row * width + endColumn);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Quantize heights to unsigned 16-bit samples (0 → 0, 1 → 65535)
+ */
+export function heightRasterTo16Bit(raster: HeightRaster): Uint16Array {
+  const samples = new Uint16Array(raster.data.length);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(Math.min(1, Math.max(0, raster.data[i])) * 65535);
+  }
+  return samples;
+}
+
+/**
+ * Headerless 16-bit little-endian heightmap (.r16/.raw), as read by most terrain importers
+ */
+export function encodeRaw16(raster: HeightRaster): Uint8Array {
+  const samples = heightRasterTo16Bit(raster);
+  const bytes = new Uint8Array(samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => view.setUint16(i * 2, sample, true));
+  return bytes;
+}
+
+/**
+ * Binary 16-bit PGM (P5, maxval 65535); samples are big-endian per the format
+ */
+export function encodePGM16(raster: HeightRaster): Uint8Array {
+  const header = new TextEncoder().encode(`P5\n${raster.width} ${raster.height}\n65535\n`);
+  const samples = heightRasterTo16Bit(raster);
+  const bytes = new Uint8Array(header.length + samples.length * 2);
+  bytes.set(header);
+  const view = new DataView(bytes.buffer);
+  samples.forEach((sample, i) => view.setUint16(header.length + i * 2, sample, false));
+  return bytes;
+}
@@ -0,0 +1,110 @@
+import type { World, WorldOptions } from './world';
+import { serializeWorld, type WorldFile } from './worldFile';
+
+/**
+ * The user-facing settings a history entry restores
+ */
+export type MapSettings = Pick<WorldOptions, 'seed' | 'numPoints' | 'meshOptions' | 'params'>;
+
+/**
+ * How to get back the map shown at a history entry
+ * Generated maps are deterministic, so their options are enough; edited or
+ * imported maps keep a world file snapshot
+ */
+export type MapSource =
+  | { kind: 'generated'; options: WorldOptions }
+  | { kind: 'snapshot'; file: WorldFile; bytes: number };
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  settings: MapSettings;
+  map: MapSource | null; // Shared by consecutive entries showing the same map; null before the first map
+  mergeKey?: string; // Consecutive entries with the same key collapse into one (e.g. one slider drag)
+}
+
+export interface MapHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown, -1 when empty
+  nextId: number;
+}
+
+export const EMPTY_HISTORY: MapHistory = { entries: [], index: -1, nextId: 0 };
+
+// Oldest entries are dropped beyond either limit
+const MAX_ENTRIES = 100;
+const MAX_SNAPSHOT_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Add an entry after the current one, discarding any undone entries
+ */
+export function recordHistory(
+  history: MapHistory,
+  label: string,
+  settings: MapSettings,
+  map: MapSource | null,
+  mergeKey?: string
+): MapHistory {
+  const current = history.entries[history.index];
+  const atEnd = history.index === history.entries.length - 1;
+
+  if (mergeKey && atEnd && current?.mergeKey === mergeKey && current.map === map) {
+    const entries = history.entries.slice();
+    entries[history.index] = { ...current, label, settings };
+    return { ...history, entries };
+  }
+
+  const entries = history.entries.slice(0, history.index + 1);
+  entries.push({ id: history.nextId, label, settings, map, mergeKey });
+  return trimHistory({ entries, index: entries.length - 1, nextId: history.nextId + 1 });
+}
+
+/**
+ * Map source for a world generated from its options alone
+ */
+export function generatedMap(options: WorldOptions): MapSource {
+  return { kind: 'generated', options };
+}
+
+/**
+ * Map source holding a snapshot of the world's current terrain
+ */
+export function snapshotMap(world: World): MapSource {
+  const file = serializeWorld(world);
+  return { kind: 'snapshot', file, bytes: estimateBytes(file) };
+}
+
+/**
+ * Rough in-memory size of a snapshot: every stored number counts as 8 bytes
+ */
+function estimateBytes(file: WorldFile): number {
+  let numbers = file.points.length + file.heights.length + file.land.length;
+  for (const feature of file.features) {
+    numbers += feature.cells.length;
+    for (const ring of feature.rings ?? []) numbers += ring.points.length * 2;
+  }
+  return numbers * 8;
+}
+
+function trimHistory(history: MapHistory): MapHistory {
+  let { entries, index } = history;
+
+  while (entries.length > 1 && (entries.length > MAX_ENTRIES || snapshotBytes(entries) > MAX_SNAPSHOT_BYTES)) {
+    entries = entries.slice(1);
+    index--;
+  }
+
+  return { ...history, entries, index };
+}
+
+function snapshotBytes(entries: HistoryEntry[]): number {
+  // Entries showing the same map share one snapshot
+  const counted = new Set<MapSource>();
+  let bytes = 0;
+  for (const { map } of entries) {
+    if (map?.kind !== 'snapshot' || counted.has(map)) continue;
+    counted.add(map);
+    bytes += map.bytes;
+  }
+  return bytes;
+}
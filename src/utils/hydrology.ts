@@ -0,0 +1,421 @@
+import { CELL_FLAGS, cellNeighbors, type MeshGraph } from './mesh';
+import type { Feature } from './coastline';
+
+declare module './voronoi' {
+  interface Cell {
+    flow?: number; // Accumulated drainage area, as a fraction of the map
+  }
+}
+
+declare module './coastline' {
+  interface Feature {
+    lake?: LakeHydrology; // Set on lake features by the hydrology stage
+  }
+}
+
+export interface LakeHydrology {
+  surfaceHeight: number; // Water surface elevation: the spill height of the basin
+  outletCell: number | null; // Land cell the lake overflows into, or null for a closed basin
+  inflow: number; // Drainage reaching the lake (including its own surface), as a fraction of the map
+  outflow: number; // Drainage leaving through the outlet after evaporation (0 for closed basins)
+  freshwater: boolean; // Closed basins concentrate salt; lakes with an outlet stay fresh
+}
+
+export interface River {
+  id: number;
+  cells: number[]; // Land cells from source to mouth, in flow order
+  points: [number, number][]; // Polyline from source to mouth (ends on the shore or at a confluence)
+  flow: number[]; // Drainage area at each point, as a fraction of the map
+  mouthCell: number; // Water cell or river cell this river drains into
+}
+
+export interface HydrologyResult {
+  filledHeights: Float64Array; // Heights with depressions filled so every land cell drains
+  downhill: Int32Array; // Receiving neighbor of each land cell (-1 for water)
+  flow: Float64Array; // Accumulated drainage area per cell, as a fraction of the map
+  rivers: River[];
+}
+
+// Minimal rise enforced between a cell and its receiver so filled flats still drain
+const FILL_EPSILON = 1e-5;
+
+// Water lost per lake cell, in units of one cell's rainfall
+// A lake whose catchment delivers less than this never spills and turns salty
+const LAKE_EVAPORATION = 3;
+
+// Minimum fill depth (in 0-1 height units) and extent for a land depression to become a lake
+const DEPRESSION_LAKE_DEPTH = 0.01;
+const DEPRESSION_LAKE_MIN_CELLS = 4;
+
+/**
+ * Binary min-heap keyed by height, used by the priority-flood
+ */
+class HeightQueue {
+  private cells: number[] = [];
+  private keys: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, key: number): void {
+    const { cells, keys } = this;
+    let index = cells.length;
+    cells.push(cell);
+    keys.push(key);
+
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (keys[parent] <= key) break;
+      cells[index] = cells[parent];
+      keys[index] = keys[parent];
+      index = parent;
+    }
+    cells[index] = cell;
+    keys[index] = key;
+  }
+
+  pop(): number {
+    const { cells, keys } = this;
+    const top = cells[0];
+    const lastCell = cells.pop()!;
+    const lastKey = keys.pop()!;
+    const length = cells.length;
+    if (length === 0) return top;
+
+    let index = 0;
+    while (true) {
+      const left = index * 2 + 1;
+      if (left >= length) break;
+      const right = left + 1;
+      const child = right < length && keys[right] < keys[left] ? right : left;
+      if (keys[child] >= lastKey) break;
+      cells[index] = cells[child];
+      keys[index] = keys[child];
+      index = child;
+    }
+    cells[index] = lastCell;
+    keys[index] = lastKey;
+    return top;
+  }
+}
+
+/**
+ * Priority-flood depression filling (Barnes et al. 2014, with epsilon)
+ * Flooding inwards from the sink cells (every water cell by default) raises
+ * each pit to its spill height plus a tiny gradient, so every other cell has
+ * a strictly lower neighbor leading to a sink
+ */
+export function fillDepressions(
+  graph: MeshGraph,
+  isSink: (cell: number) => boolean = cell => !(graph.flags[cell] & CELL_FLAGS.land)
+): Float64Array {
+  const { size, heights } = graph;
+  const filled = new Float64Array(heights);
+  const visited = new Uint8Array(size);
+  const queue = new HeightQueue();
+
+  for (let i = 0; i < size; i++) {
+    if (isSink(i)) {
+      visited[i] = 1;
+      queue.push(i, filled[i]);
+    }
+  }
+
+  // A map with no sinks at all drains off its lowest cell
+  if (queue.size === 0 && size > 0) {
+    let lowest = 0;
+    for (let i = 1; i < size; i++) {
+      if (heights[i] < heights[lowest]) lowest = i;
+    }
+    visited[lowest] = 1;
+    queue.push(lowest, filled[lowest]);
+  }
+
+  while (queue.size > 0) {
+    const cell = queue.pop();
+    for (const neighbor of cellNeighbors(graph, cell)) {
+      if (visited[neighbor]) continue;
+      visited[neighbor] = 1;
+      filled[neighbor] = Math.max(filled[neighbor], filled[cell] + FILL_EPSILON);
+      queue.push(neighbor, filled[neighbor]);
+    }
+  }
+
+  return filled;
+}
+
+/**
+ * Route every land cell to its lowest neighbor on the filled surface
+ */
+export function computeDownhill(graph: MeshGraph, filled: Float64Array): Int32Array {
+  const downhill = new Int32Array(graph.size).fill(-1);
+
+  for (let i = 0; i < graph.size; i++) {
+    if (!(graph.flags[i] & CELL_FLAGS.land)) continue;
+
+    let lowest = -1;
+    for (const neighbor of cellNeighbors(graph, i)) {
+      if (filled[neighbor] < filled[i] && (lowest === -1 || filled[neighbor] < filled[lowest])) {
+        lowest = neighbor;
+      }
+    }
+    downhill[i] = lowest;
+  }
+
+  return downhill;
+}
+
+/**
+ * Accumulate drainage area down the routing tree, passing each cell's flow on
+ * only once everything upstream of it has arrived
+ * Each draining cell (land, or water routed through a lake) contributes its
+ * share of the map, optionally weighted (e.g. by rainfall); losses are
+ * subtracted before a cell passes its flow on (e.g. lake evaporation)
+ */
+export function accumulateFlow(
+  graph: MeshGraph,
+  downhill: Int32Array,
+  weights?: Float64Array,
+  losses?: Float64Array
+): Float64Array {
+  const flow = new Float64Array(graph.size);
+  const isDraining = (cell: number) => (graph.flags[cell] & CELL_FLAGS.land) !== 0 || downhill[cell] >= 0;
+  const pending = new Uint32Array(graph.size); // Upstream cells not yet passed on
+
+  for (let i = 0; i < graph.size; i++) {
+    if (!isDraining(i)) continue;
+    flow[i] = (weights ? weights[i] : 1) / graph.size;
+    if (downhill[i] >= 0) pending[downhill[i]]++;
+  }
+
+  const queue: number[] = [];
+  for (let i = 0; i < graph.size; i++) {
+    if (isDraining(i) && pending[i] === 0) queue.push(i);
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    const receiver = downhill[cell];
+    if (receiver < 0) continue;
+
+    flow[receiver] += Math.max(0, flow[cell] - (losses ? losses[cell] : 0));
+    if (--pending[receiver] === 0 && isDraining(receiver)) queue.push(receiver);
+  }
+
+  return flow;
+}
+
+/**
+ * Trace rivers through every cell whose drainage exceeds the threshold
+ * Each river starts at a source (no upstream river cell) and runs until it
+ * reaches water or joins a river that was already traced
+ */
+export function extractRivers(
+  graph: MeshGraph,
+  downhill: Int32Array,
+  flow: Float64Array,
+  threshold: number
+): River[] {
+  const isRiver = (cell: number) => (graph.flags[cell] & CELL_FLAGS.land) !== 0 && flow[cell] >= threshold;
+
+  // Sources are river cells that no other river cell drains into
+  const hasUpstream = new Uint8Array(graph.size);
+  for (let i = 0; i < graph.size; i++) {
+    if (isRiver(i) && downhill[i] >= 0) hasUpstream[downhill[i]] = 1;
+  }
+
+  // Trace the biggest rivers first so tributaries end where they join them
+  const sources: number[] = [];
+  for (let i = 0; i < graph.size; i++) {
+    if (isRiver(i) && !hasUpstream[i]) sources.push(i);
+  }
+  sources.sort((a, b) => riverMouthFlow(b, downhill, flow) - riverMouthFlow(a, downhill, flow));
+
+  const assigned = new Int32Array(graph.size).fill(-1);
+  const rivers: River[] = [];
+
+  for (const source of sources) {
+    const id = rivers.length;
+    const cells: number[] = [];
+    let current = source;
+
+    while (current >= 0 && isRiver(current) && assigned[current] === -1) {
+      assigned[current] = id;
+      cells.push(current);
+      current = downhill[current];
+    }
+    if (cells.length === 0) continue;
+
+    const points: [number, number][] = cells.map(cell => [graph.x[cell], graph.y[cell]]);
+    const riverFlow = cells.map(cell => flow[cell]);
+
+    // Rivers leaving a lake start on its shore rather than at the outlet centre
+    for (const neighbor of cellNeighbors(graph, source)) {
+      if (downhill[neighbor] === source && !(graph.flags[neighbor] & CELL_FLAGS.land)) {
+        points.unshift([(graph.x[neighbor] + graph.x[source]) / 2, (graph.y[neighbor] + graph.y[source]) / 2]);
+        riverFlow.unshift(flow[source]);
+        break;
+      }
+    }
+    const last = cells[cells.length - 1];
+    const mouthCell = current;
+
+    if (mouthCell >= 0) {
+      if (graph.flags[mouthCell] & CELL_FLAGS.land) {
+        // Confluence: run into the centre of the cell we join
+        points.push([graph.x[mouthCell], graph.y[mouthCell]]);
+      } else {
+        // Sea or lake: stop on the shared edge, halfway to the water cell
+        points.push([(graph.x[last] + graph.x[mouthCell]) / 2, (graph.y[last] + graph.y[mouthCell]) / 2]);
+      }
+      riverFlow.push(flow[last]);
+    }
+
+    rivers.push({ id, cells, points, flow: riverFlow, mouthCell });
+  }
+
+  return rivers;
+}
+
+/**
+ * Flow at the point where a source's path leaves the land
+ */
+function riverMouthFlow(source: number, downhill: Int32Array, flow: Float64Array): number {
+  let current = source;
+  let last = source;
+  while (current >= 0) {
+    last = current;
+    current = downhill[current];
+  }
+  return flow[last];
+}
+
+/**
+ * Scale values so their mean over land cells is 1
+ */
+function normalizeToLandMean(graph: MeshGraph, values: Float64Array): Float64Array {
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < graph.size; i++) {
+    if (graph.flags[i] & CELL_FLAGS.land) {
+      sum += values[i];
+      count++;
+    }
+  }
+
+  const mean = count > 0 ? sum / count : 0;
+  return mean > 0 ? values.map(value => value / mean) : new Float64Array(graph.size).fill(1);
+}
+
+/**
+ * Land cells lying in closed depressions deeper than DEPRESSION_LAKE_DEPTH
+ * These are the basins that would hold standing water, so they can be
+ * turned into lakes before features are labeled. Basins smaller than
+ * DEPRESSION_LAKE_MIN_CELLS are left dry to avoid single-cell puddles
+ */
+export function findDepressionLakeCells(graph: MeshGraph): number[] {
+  const filled = fillDepressions(graph);
+  const isBasin = (cell: number) =>
+    (graph.flags[cell] & CELL_FLAGS.land) !== 0 && filled[cell] - graph.heights[cell] >= DEPRESSION_LAKE_DEPTH;
+
+  const visited = new Uint8Array(graph.size);
+  const lakeCells: number[] = [];
+
+  for (let i = 0; i < graph.size; i++) {
+    if (visited[i] || !isBasin(i)) continue;
+
+    const basin = [i];
+    visited[i] = 1;
+    for (let head = 0; head < basin.length; head++) {
+      for (const neighbor of cellNeighbors(graph, basin[head])) {
+        if (!visited[neighbor] && isBasin(neighbor)) {
+          visited[neighbor] = 1;
+          basin.push(neighbor);
+        }
+      }
+    }
+
+    if (basin.length >= DEPRESSION_LAKE_MIN_CELLS) lakeCells.push(...basin);
+  }
+
+  return lakeCells;
+}
+
+/**
+ * Full hydrology stage: fill depressions, route, accumulate, extract rivers
+ * Only ocean cells are sinks: lakes fill to their spill height and pass their
+ * inflow, less evaporation, out through the lowest point of their rim. Lakes
+ * that evaporate everything they receive become closed salt basins
+ * riverThreshold is the minimum drainage area for a river, in percent of the map
+ * rainfall (any units) weights each cell's contribution; it is normalized to
+ * the land mean so the threshold keeps its meaning
+ * Reads heights and land flags from the graph, which must be in sync with the cells
+ */
+export function generateHydrology(
+  graph: MeshGraph,
+  lakes: Feature[],
+  riverThreshold: number,
+  rainfall?: Float64Array
+): HydrologyResult {
+  const lakeOf = new Int32Array(graph.size).fill(-1);
+  lakes.forEach((lake, index) => {
+    for (const cell of lake.cells) lakeOf[cell] = index;
+  });
+
+  const filledHeights = fillDepressions(
+    graph,
+    cell => !(graph.flags[cell] & CELL_FLAGS.land) && lakeOf[cell] === -1
+  );
+  const downhill = computeDownhill(graph, filledHeights);
+
+  // Each lake drains through its lowest filled cell, which sits next to the spill point
+  // Every other lake cell routes straight to it, so the lake acts as one node
+  const exits = lakes.map(lake => {
+    let exit = lake.cells[0];
+    for (const cell of lake.cells) {
+      if (filledHeights[cell] < filledHeights[exit]) exit = cell;
+    }
+    return exit;
+  });
+
+  const losses = new Float64Array(graph.size);
+  lakes.forEach((lake, index) => {
+    const exit = exits[index];
+    for (const cell of lake.cells) {
+      if (cell !== exit) downhill[cell] = exit;
+    }
+
+    let spill = -1;
+    for (const neighbor of cellNeighbors(graph, exit)) {
+      if (filledHeights[neighbor] < filledHeights[exit] && (spill === -1 || filledHeights[neighbor] < filledHeights[spill])) {
+        spill = neighbor;
+      }
+    }
+    downhill[exit] = spill;
+    losses[exit] = (lake.cells.length * LAKE_EVAPORATION) / graph.size;
+  });
+
+  const flow = accumulateFlow(graph, downhill, rainfall && normalizeToLandMean(graph, rainfall), losses);
+
+  lakes.forEach((lake, index) => {
+    const exit = exits[index];
+    const inflow = flow[exit];
+    const outflow = downhill[exit] >= 0 ? Math.max(0, inflow - losses[exit]) : 0;
+
+    // Closed basins keep their water, so nothing downstream should trace through them
+    if (outflow === 0) downhill[exit] = -1;
+
+    lake.lake = {
+      surfaceHeight: filledHeights[exit],
+      outletCell: outflow > 0 ? downhill[exit] : null,
+      inflow,
+      outflow,
+      freshwater: outflow > 0
+    };
+  });
+
+  const rivers = extractRivers(graph, downhill, flow, riverThreshold / 100);
+
+  return { filledHeights, downhill, flow, rivers };
+}
@@ -0,0 +1,66 @@
+import type { HeightRaster } from './heightmap';
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+function canvasToPNG(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode the PNG'))), 'image/png');
+  });
+}
+
+function createCanvas(width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D is not available');
+  return { canvas, ctx };
+}
+
+/**
+ * Rasterize an SVG document to a PNG at scale × its map size
+ */
+export async function svgToPNG(svg: string, width: number, height: number, scale: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const { canvas, ctx } = createCanvas(Math.round(width * scale), Math.round(height * scale));
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await canvasToPNG(canvas);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * 8-bit grayscale PNG of a height raster (black = 0, white = 1)
+ */
+export function heightRasterToPNG(raster: HeightRaster): Promise<Blob> {
+  const { canvas, ctx } = createCanvas(raster.width, raster.height);
+  const image = ctx.createImageData(raster.width, raster.height);
+
+  raster.data.forEach((height, i) => {
+    const gray = Math.round(Math.min(1, Math.max(0, height)) * 255);
+    image.data[i * 4] = gray;
+    image.data[i * 4 + 1] = gray;
+    image.data[i * 4 + 2] = gray;
+    image.data[i * 4 + 3] = 255;
+  });
+
+  ctx.putImageData(image, 0, 0);
+  return canvasToPNG(canvas);
+}
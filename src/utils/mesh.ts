@@ -0,0 +1,122 @@
+import type { Delaunay } from 'd3';
+import type { Cell } from './voronoi';
+
+/**
+ * Bit flags stored per cell in MeshGraph.flags
+ */
+export const CELL_FLAGS = {
+  land: 1,
+  coastal: 2
+} as const;
+
+/**
+ * Indexed, struct-of-arrays view of the Voronoi mesh
+ * Cell i's neighbors are neighborIndices[neighborOffsets[i] .. neighborOffsets[i + 1]]
+ * (compressed sparse row), so neighbor walks never allocate or search
+ */
+export interface MeshGraph {
+  size: number;
+  x: Float64Array; // Cell site x coordinates
+  y: Float64Array; // Cell site y coordinates
+  neighborOffsets: Uint32Array; // Length size + 1
+  neighborIndices: Uint32Array;
+  heights: Float64Array;
+  flags: Uint8Array;
+}
+
+/**
+ * Build the CSR neighbor graph straight from the Delaunay half-edge structure
+ * delaunay.neighbors(i) walks only the triangles around site i, so this is
+ * linear in the number of edges
+ */
+export function buildMeshGraph(points: [number, number][], delaunay: Delaunay<[number, number]>): MeshGraph {
+  const size = points.length;
+  const x = new Float64Array(size);
+  const y = new Float64Array(size);
+  const neighborOffsets = new Uint32Array(size + 1);
+  const neighborLists: number[][] = new Array(size);
+
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    x[i] = points[i][0];
+    y[i] = points[i][1];
+    neighborLists[i] = Array.from(delaunay.neighbors(i));
+    neighborOffsets[i] = total;
+    total += neighborLists[i].length;
+  }
+  neighborOffsets[size] = total;
+
+  const neighborIndices = new Uint32Array(total);
+  for (let i = 0; i < size; i++) {
+    neighborIndices.set(neighborLists[i], neighborOffsets[i]);
+  }
+
+  return {
+    size,
+    x,
+    y,
+    neighborOffsets,
+    neighborIndices,
+    heights: new Float64Array(size),
+    flags: new Uint8Array(size)
+  };
+}
+
+/**
+ * Rebuild the graph from finished Cell records (whose neighbor lists came
+ * from the same Delaunay walk), e.g. for a world received from a worker
+ */
+export function meshGraphFromCells(cells: Cell[]): MeshGraph {
+  const size = cells.length;
+  const x = new Float64Array(size);
+  const y = new Float64Array(size);
+  const neighborOffsets = new Uint32Array(size + 1);
+
+  let total = 0;
+  for (let i = 0; i < size; i++) {
+    x[i] = cells[i].centroid[0];
+    y[i] = cells[i].centroid[1];
+    neighborOffsets[i] = total;
+    total += cells[i].neighbors.length;
+  }
+  neighborOffsets[size] = total;
+
+  const neighborIndices = new Uint32Array(total);
+  for (let i = 0; i < size; i++) {
+    neighborIndices.set(cells[i].neighbors, neighborOffsets[i]);
+  }
+
+  return {
+    size,
+    x,
+    y,
+    neighborOffsets,
+    neighborIndices,
+    heights: new Float64Array(size),
+    flags: new Uint8Array(size)
+  };
+}
+
+/**
+ * Neighbor ids of a cell as a zero-copy view into the CSR arrays
+ */
+export function cellNeighbors(graph: MeshGraph, id: number): Uint32Array {
+  return graph.neighborIndices.subarray(graph.neighborOffsets[id], graph.neighborOffsets[id + 1]);
+}
+
+/**
+ * Copy heights and land/coastal flags from the Cell records into the graph
+ * so graph-based stages see the current classification
+ * cellIds limits the copy to the given cells
+ */
+export function syncCellState(graph: MeshGraph, cells: Cell[], cellIds?: number[]): void {
+  const count = cellIds ? cellIds.length : graph.size;
+  for (let k = 0; k < count; k++) {
+    const i = cellIds ? cellIds[k] : k;
+    const cell = cells[i];
+    graph.heights[i] = cell.height;
+    graph.flags[i] =
+      (cell.isLand ? CELL_FLAGS.land : 0) |
+      (cell.isCoastal ? CELL_FLAGS.coastal : 0);
+  }
+}
@@ -0,0 +1,204 @@
+import type { Feature } from './coastline';
+import { createRandom, type RandomFn } from './random';
+import type { Cell } from './voronoi';
+
+export type NameCulture = 'sylvan' | 'northern' | 'dune' | 'highland' | 'tidal';
+
+export interface NameCultureDefinition {
+  name: string;
+  names: string[]; // Training words for the Markov model
+}
+
+/**
+ * Built-in name lists; each landmass draws from one, and its lakes and the
+ * ocean borrow the culture of the land around them
+ */
+export const NAME_CULTURES: Record<NameCulture, NameCultureDefinition> = {
+  sylvan: {
+    name: 'Sylvan',
+    names: [
+      'Aelindor', 'Sylvaris', 'Thalanor', 'Elarion', 'Lothiel', 'Miraleth', 'Caladwen', 'Ithilian',
+      'Nimrathel', 'Faelora', 'Arandel', 'Eryndil', 'Velaria', 'Lirael', 'Soliran', 'Taurendil',
+      'Aerith', 'Galadon', 'Ninuial', 'Elenwe', 'Amarien', 'Celebrin', 'Ilmarin', 'Lorandel'
+    ]
+  },
+  northern: {
+    name: 'Northern',
+    names: [
+      'Skarheim', 'Valgrund', 'Fjorvik', 'Hrafnsey', 'Jotunmark', 'Ulfstad', 'Brimhald', 'Kvaldor',
+      'Thorsvik', 'Isgard', 'Norrland', 'Hvitfell', 'Ragnholm', 'Eskvald', 'Svartby', 'Frostheim',
+      'Gunnarsey', 'Vindholm', 'Haldrik', 'Skjold', 'Orvik', 'Trondal', 'Bjornholt', 'Dagmar'
+    ]
+  },
+  dune: {
+    name: 'Dune',
+    names: [
+      'Qasirah', 'Zahrun', 'Almaqar', 'Sabirah', 'Khefren', 'Tazarim', 'Marrakhim', 'Dhunab',
+      'Irsafa', 'Oudahar', 'Sirrakh', 'Nahrazan', 'Jebbara', 'Kharim', 'Azzura', 'Samarqa',
+      'Hadrimat', 'Ruskhal', 'Tamaseq', 'Zafirah', 'Belkhar', 'Ouazzan', 'Mirabad', 'Qadisha'
+    ]
+  },
+  highland: {
+    name: 'Highland',
+    names: [
+      'Glenmoor', 'Caerlon', 'Dunbarrow', 'Inverlach', 'Bryndwyr', 'Kilmorran', 'Penrhyn', 'Aberwyn',
+      'Craigallan', 'Llanwyth', 'Tirrachan', 'Morvenna', 'Ballachul', 'Dunmorah', 'Carrowen', 'Strathen',
+      'Gwynvarr', 'Rhosgarth', 'Ardnamoor', 'Lochbrae', 'Cairnhollow', 'Tregaron', 'Eilidh', 'Benmore'
+    ]
+  },
+  tidal: {
+    name: 'Tidal',
+    names: [
+      'Moana', 'Kailani', 'Tamarua', 'Nalua', 'Havaiki', 'Rangiora', 'Makalea', 'Taonui',
+      'Oahuna', 'Keolani', 'Motuiti', 'Pualani', 'Waikara', 'Honoka', 'Lehuavai', 'Teraina',
+      'Mauloa', 'Kalawai', 'Niupani', 'Aotea', 'Rarotai', 'Hinemoa', 'Pahuaki', 'Vaitupu'
+    ]
+  }
+};
+
+const CULTURES = Object.keys(NAME_CULTURES) as NameCulture[];
+
+// Markov order: how many previous letters pick the next one
+const ORDER = 2;
+const START = '^'.repeat(ORDER);
+const END = '$';
+const MIN_LENGTH = 4;
+const MAX_LENGTH = 11;
+const MAX_ATTEMPTS = 50;
+
+// Islands with at most this many cells are "Isles"
+const ISLE_SIZE = 12;
+
+/**
+ * Letter transitions learned from a name list: each ORDER-letter context maps
+ * to every letter seen after it (repeats included, so frequent ones win)
+ */
+export type MarkovModel = Map<string, string[]>;
+
+/**
+ * Train a character-level Markov model on a list of names
+ */
+export function trainMarkov(names: string[]): MarkovModel {
+  const model: MarkovModel = new Map();
+  for (const name of names) {
+    const word = START + name.toLowerCase() + END;
+    for (let i = ORDER; i < word.length; i++) {
+      const context = word.slice(i - ORDER, i);
+      const next = model.get(context);
+      if (next) next.push(word[i]);
+      else model.set(context, [word[i]]);
+    }
+  }
+  return model;
+}
+
+/**
+ * Walk the model into a new capitalized name
+ * Names that are too short or long, or copy a training name outright, are
+ * rejected; after MAX_ATTEMPTS the last candidate is kept whatever it is
+ */
+export function markovName(model: MarkovModel, random: RandomFn, avoid: (name: string) => boolean = () => false): string {
+  let name = '';
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    let word = START;
+    while (word.length - ORDER < MAX_LENGTH) {
+      const next = model.get(word.slice(-ORDER));
+      if (!next) break;
+      const letter = next[Math.floor(random() * next.length)];
+      if (letter === END) break;
+      word += letter;
+    }
+    name = capitalize(word.slice(ORDER));
+    if (name.length >= MIN_LENGTH && name.length <= MAX_LENGTH && !avoid(name)) break;
+  }
+  return name;
+}
+
+const models = new Map<NameCulture, { model: MarkovModel; source: Set<string> }>();
+
+function cultureModel(culture: NameCulture): { model: MarkovModel; source: Set<string> } {
+  let entry = models.get(culture);
+  if (!entry) {
+    const { names } = NAME_CULTURES[culture];
+    entry = { model: trainMarkov(names), source: new Set(names.map(capitalize)) };
+    models.set(culture, entry);
+  }
+  return entry;
+}
+
+/**
+ * Name every feature that doesn't have a name yet, in place
+ * Each feature draws from its own random stream (seed + feature id), so a
+ * feature's name doesn't depend on how many others were named before it,
+ * and features created by brush edits get names without renaming the rest
+ */
+export function nameFeatures(features: Feature[], cells: Cell[], seed: string): void {
+  const used = new Set(features.flatMap(feature => (feature.name ? [feature.name] : [])));
+  const landCulture = new Map<number, NameCulture>();
+
+  // Land first: lakes and the ocean take their culture from it
+  const ordered = [...features].sort((a, b) => Number(b.land) - Number(a.land) || a.id - b.id);
+  for (const feature of ordered) {
+    const random = createRandom(seed, `names:${feature.id}`);
+    const culture = feature.land
+      ? CULTURES[Math.floor(random() * CULTURES.length)]
+      : surroundingCulture(feature, features, cells, landCulture) ?? CULTURES[Math.floor(random() * CULTURES.length)];
+    if (feature.land) landCulture.set(feature.id, culture);
+    if (feature.name) continue;
+
+    const { model, source } = cultureModel(culture);
+    let name = '';
+    for (let attempt = 0; attempt < MAX_ATTEMPTS && (!name || used.has(name)); attempt++) {
+      name = formatName(feature, markovName(model, random, stem => source.has(stem)), random);
+    }
+    feature.name = name;
+    used.add(name);
+  }
+}
+
+/**
+ * Culture of the land bordering a water feature: the landmass around a lake,
+ * or the largest landmass for the ocean
+ */
+function surroundingCulture(
+  feature: Feature,
+  features: Feature[],
+  cells: Cell[],
+  landCulture: Map<number, NameCulture>
+): NameCulture | undefined {
+  if (feature.type === 'ocean') {
+    const largest = features
+      .filter(other => other.land)
+      .reduce<Feature | undefined>((best, other) => (!best || other.cells.length > best.cells.length ? other : best), undefined);
+    return largest && landCulture.get(largest.id);
+  }
+
+  for (const cellId of feature.cells) {
+    for (const neighborId of cells[cellId].neighbors) {
+      const featureId = cells[neighborId].featureId;
+      if (cells[neighborId].isLand && featureId !== undefined && landCulture.has(featureId)) {
+        return landCulture.get(featureId);
+      }
+    }
+  }
+  return undefined;
+}
+
+function formatName(feature: Feature, stem: string, random: RandomFn): string {
+  const pick = (patterns: string[]) => patterns[Math.floor(random() * patterns.length)].replace('X', stem);
+
+  switch (feature.type) {
+    case 'ocean':
+      return pick(['X Ocean', 'X Sea', 'Sea of X']);
+    case 'lake':
+      return pick(['Lake X', 'Lake X', 'X Mere', 'X Water']);
+    default:
+      if (feature.border) return stem;
+      if ((feature.size ?? feature.cells.length) <= ISLE_SIZE) return pick(['Isle of X', 'X Isle', 'X Key']);
+      return pick(['X', 'X', 'X Island']);
+  }
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
@@ -0,0 +1,158 @@
+import type { RandomFn } from './random';
+
+/**
+ * Coherent 2D noise returning values in roughly [-1, 1]
+ */
+export type Noise2D = (x: number, y: number) => number;
+
+export interface FractalOptions {
+  octaves: number; // Number of layered noise frequencies
+  lacunarity: number; // Frequency multiplier between octaves
+  gain: number; // Amplitude multiplier between octaves
+}
+
+export const DEFAULT_FRACTAL_OPTIONS: FractalOptions = {
+  octaves: 4,
+  lacunarity: 2,
+  gain: 0.5
+};
+
+const F2 = 0.5 * (Math.sqrt(3) - 1);
+const G2 = (3 - Math.sqrt(3)) / 6;
+
+// The 12 gradient directions of 3D simplex noise projected onto the plane
+const GRADIENTS = [
+  [1, 1], [-1, 1], [1, -1], [-1, -1],
+  [1, 0], [-1, 0], [1, 0], [-1, 0],
+  [0, 1], [0, -1], [0, 1], [0, -1]
+];
+
+/**
+ * Create seeded 2D simplex noise
+ * The permutation table is shuffled with the supplied generator, so the same
+ * seed always yields the same noise field
+ */
+export function createNoise2D(random: RandomFn): Noise2D {
+  const permutation = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) permutation[i] = i;
+
+  // Fisher-Yates shuffle
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+  }
+
+  const perm = new Uint8Array(512);
+  const permMod12 = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    perm[i] = permutation[i & 255];
+    permMod12[i] = perm[i] % 12;
+  }
+
+  const corner = (gradientIndex: number, x: number, y: number): number => {
+    const t = 0.5 - x * x - y * y;
+    if (t < 0) return 0;
+    const [gx, gy] = GRADIENTS[gradientIndex];
+    const t2 = t * t;
+    return t2 * t2 * (gx * x + gy * y);
+  };
+
+  return (x: number, y: number): number => {
+    // Skew input space to find the containing simplex cell
+    const s = (x + y) * F2;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const t = (i + j) * G2;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+
+    // Upper or lower triangle of the rhombus
+    const i1 = x0 > y0 ? 1 : 0;
+    const j1 = x0 > y0 ? 0 : 1;
+
+    const x1 = x0 - i1 + G2;
+    const y1 = y0 - j1 + G2;
+    const x2 = x0 - 1 + 2 * G2;
+    const y2 = y0 - 1 + 2 * G2;
+
+    const ii = i & 255;
+    const jj = j & 255;
+
+    const n0 = corner(permMod12[ii + perm[jj]], x0, y0);
+    const n1 = corner(permMod12[ii + i1 + perm[jj + j1]], x1, y1);
+    const n2 = corner(permMod12[ii + 1 + perm[jj + 1]], x2, y2);
+
+    // Scale the sum to cover roughly [-1, 1]
+    return 70 * (n0 + n1 + n2);
+  };
+}
+
+/**
+ * Fractal Brownian motion: sum octaves of noise at rising frequency and
+ * falling amplitude. Returns roughly [-1, 1]
+ */
+export function fbm(
+  noise: Noise2D,
+  x: number,
+  y: number,
+  options: FractalOptions = DEFAULT_FRACTAL_OPTIONS
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let norm = 0;
+
+  for (let octave = 0; octave < options.octaves; octave++) {
+    sum += amplitude * noise(x * frequency, y * frequency);
+    norm += amplitude;
+    amplitude *= options.gain;
+    frequency *= options.lacunarity;
+  }
+
+  return norm > 0 ? sum / norm : 0;
+}
+
+/**
+ * Ridged multifractal variant of fbm: folds each octave around zero so
+ * valleys become sharp crests, good for mountain chains. Returns [0, 1]
+ */
+export function ridged(
+  noise: Noise2D,
+  x: number,
+  y: number,
+  options: FractalOptions = DEFAULT_FRACTAL_OPTIONS
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let frequency = 1;
+  let norm = 0;
+
+  for (let octave = 0; octave < options.octaves; octave++) {
+    const ridge = 1 - Math.abs(noise(x * frequency, y * frequency));
+    sum += amplitude * ridge * ridge;
+    norm += amplitude;
+    amplitude *= options.gain;
+    frequency *= options.lacunarity;
+  }
+
+  return norm > 0 ? sum / norm : 0;
+}
+
+/**
+ * Domain warping: offset the sample position by another noise lookup
+ * so contours swirl instead of following the noise lattice
+ * strength is measured in noise-space units (1 = one feature wavelength)
+ */
+export function domainWarp(
+  noise: Noise2D,
+  x: number,
+  y: number,
+  strength: number
+): [number, number] {
+  if (strength === 0) return [x, y];
+
+  // Offset the second lookup so the x and y warps are uncorrelated
+  const warpX = noise(x + 31.7, y + 11.3);
+  const warpY = noise(x - 47.2, y + 83.9);
+  return [x + warpX * strength, y + warpY * strength];
+}
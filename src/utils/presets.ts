@@ -0,0 +1,217 @@
+import { DEFAULT_TERRAIN_PARAMS, rangeProblem, TERRAIN_PARAM_RANGES, type TerrainParams } from './terrain';
+import { HEIGHTMAP_TEMPLATES } from './templates';
+
+export const PRESET_FILE_FORMAT = 'fwg4-presets';
+export const PRESET_FILE_VERSION = 1;
+
+// localStorage key; the stored value is a preset file document
+const STORAGE_KEY = 'fwg4-presets';
+
+export interface ParamPreset {
+  name: string;
+  params: TerrainParams;
+}
+
+/**
+ * Preset document, used both for exported files and for localStorage
+ */
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: ParamPreset[];
+}
+
+export type BuiltinPresetId = 'pangaea' | 'archipelago' | 'twinContinents' | 'inlandSea' | 'fjordCoast';
+
+export const BUILTIN_PRESETS: Record<BuiltinPresetId, ParamPreset> = {
+  pangaea: {
+    name: 'Pangaea',
+    params: {
+      ...DEFAULT_TERRAIN_PARAMS,
+      terrainMode: 'template',
+      template: 'pangea',
+      waterMargin: 30,
+      precipitationScale: 0.8
+    }
+  },
+  archipelago: {
+    name: 'Archipelago',
+    params: {
+      ...DEFAULT_TERRAIN_PARAMS,
+      terrainMode: 'template',
+      template: 'archipelago',
+      waterMargin: 40,
+      equatorTemperature: 29,
+      precipitationScale: 1.3
+    }
+  },
+  twinContinents: {
+    name: 'Twin Continents',
+    params: {
+      ...DEFAULT_TERRAIN_PARAMS,
+      terrainMode: 'template',
+      template: 'continents'
+    }
+  },
+  inlandSea: {
+    name: 'Inland Sea',
+    params: {
+      ...DEFAULT_TERRAIN_PARAMS,
+      terrainMode: 'template',
+      template: 'inlandSea',
+      equatorTemperature: 30,
+      precipitationScale: 0.7
+    }
+  },
+  fjordCoast: {
+    name: 'Fjord Coast',
+    params: {
+      ...DEFAULT_TERRAIN_PARAMS,
+      terrainMode: 'template',
+      template: 'fjords',
+      waterMargin: 30,
+      equatorTemperature: 12,
+      poleTemperature: -35,
+      precipitationScale: 1.4,
+      riverThreshold: 0.3
+    }
+  }
+};
+
+/**
+ * Raised for preset files that can't be read
+ * path points at the offending field, e.g. "presets[2].params.seaLevel"
+ */
+export class PresetFileError extends Error {
+  path: string;
+
+  constructor(message: string, path: string = '') {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'PresetFileError';
+    this.path = path;
+  }
+}
+
+export function presetsToJSON(presets: ParamPreset[]): string {
+  const file: PresetFile = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Parse and validate a preset file
+ * Parameters added after the file was written take their defaults; unknown
+ * ones are dropped. Throws PresetFileError describing the first problem found
+ */
+export function parsePresetFile(text: string): ParamPreset[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new PresetFileError(`Not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+
+  const document = expectObject(raw, '');
+  if (document.format !== PRESET_FILE_FORMAT) {
+    throw new PresetFileError(`Not a preset file (expected format "${PRESET_FILE_FORMAT}")`, 'format');
+  }
+  if (typeof document.version !== 'number' || document.version > PRESET_FILE_VERSION) {
+    throw new PresetFileError(`Unsupported version (supported up to ${PRESET_FILE_VERSION})`, 'version');
+  }
+  if (!Array.isArray(document.presets)) throw new PresetFileError('Expected an array', 'presets');
+
+  return document.presets.map((value, i) => {
+    const path = `presets[${i}]`;
+    const preset = expectObject(value, path);
+    if (typeof preset.name !== 'string' || !preset.name.trim()) {
+      throw new PresetFileError('Expected a non-empty string', `${path}.name`);
+    }
+    return { name: preset.name.trim(), params: validateParams(expectObject(preset.params, `${path}.params`), `${path}.params`) };
+  });
+}
+
+/**
+ * Presets saved in this browser; unreadable storage is reported and ignored
+ */
+export function loadUserPresets(storage: Storage = localStorage): ParamPreset[] {
+  const stored = storage.getItem(STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return parsePresetFile(stored);
+  } catch (error) {
+    console.warn('Ignoring saved presets:', error instanceof Error ? error.message : error);
+    return [];
+  }
+}
+
+/**
+ * Replace the presets saved in this browser (throws if storage is full or disabled)
+ */
+export function saveUserPresets(presets: ParamPreset[], storage: Storage = localStorage): void {
+  storage.setItem(STORAGE_KEY, presetsToJSON(presets));
+}
+
+/**
+ * Add presets, replacing any saved under the same name
+ */
+export function mergePresets(existing: ParamPreset[], added: ParamPreset[]): ParamPreset[] {
+  const names = new Set(added.map(preset => preset.name));
+  return [...existing.filter(preset => !names.has(preset.name)), ...added];
+}
+
+/**
+ * Whether two parameter sets are identical, e.g. to show which preset is active
+ */
+export function sameParams(a: TerrainParams, b: TerrainParams): boolean {
+  return (Object.keys(DEFAULT_TERRAIN_PARAMS) as (keyof TerrainParams)[]).every(key => {
+    const x = a[key];
+    const y = b[key];
+    return Array.isArray(x) && Array.isArray(y) ? x.every((value, i) => value === y[i]) : x === y;
+  });
+}
+
+function validateParams(value: Record<string, unknown>, path: string): TerrainParams {
+  const params: Record<string, unknown> = {};
+
+  for (const [key, fallback] of Object.entries(DEFAULT_TERRAIN_PARAMS)) {
+    const field = value[key];
+    const fieldPath = `${path}.${key}`;
+
+    if (field === undefined) {
+      params[key] = fallback;
+    } else if (Array.isArray(fallback)) {
+      if (!Array.isArray(field) || field.length !== fallback.length || !field.every(Number.isFinite)) {
+        throw new PresetFileError(`Expected ${fallback.length} numbers`, fieldPath);
+      }
+      field.forEach((number, i) => checkRange(number, key, `${fieldPath}[${i}]`));
+      params[key] = field;
+    } else if (typeof field !== typeof fallback || (typeof field === 'number' && !Number.isFinite(field))) {
+      throw new PresetFileError(`Expected a ${typeof fallback}`, fieldPath);
+    } else {
+      if (typeof field === 'number') checkRange(field, key, fieldPath);
+      params[key] = field;
+    }
+  }
+
+  expectOneOf(params.terrainMode, ['blob', 'template'], `${path}.terrainMode`);
+  expectOneOf(params.template, Object.keys(HEIGHTMAP_TEMPLATES), `${path}.template`);
+  return params as unknown as TerrainParams;
+}
+
+function checkRange(value: number, key: string, path: string): void {
+  const range = TERRAIN_PARAM_RANGES[key as keyof typeof TERRAIN_PARAM_RANGES];
+  const problem = range && rangeProblem(value, range);
+  if (problem) throw new PresetFileError(problem, path);
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new PresetFileError('Expected an object', path);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectOneOf(value: unknown, allowed: readonly string[], path: string): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new PresetFileError(`Expected one of ${allowed.map(item => `"${item}"`).join(', ')}`, path);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Seeded pseudo-random number generation
+ * Every stage of the pipeline draws from one of these instead of Math.random()
+ * so that the same seed always reproduces the same map
+ */
+export type RandomFn = () => number;
+
+/**
+ * Hash an arbitrary seed string into a 32-bit unsigned integer (xmur3 finalizer)
+ */
+export function hashSeed(seed: string): number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  h = Math.imul(h ^ (h >>> 16), 2246822507);
+  h = Math.imul(h ^ (h >>> 13), 3266489909);
+  return (h ^= h >>> 16) >>> 0;
+}
+
+/**
+ * Create a mulberry32 generator returning floats in [0, 1)
+ * An optional stream name derives an independent sequence from the same seed,
+ * so adding draws to one stage never shifts the output of another
+ */
+export function createRandom(seed: string | number, stream?: string): RandomFn {
+  const key = stream === undefined ? String(seed) : `${seed}:${stream}`;
+  let state = hashSeed(key);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Produce a short human-friendly seed for new maps
+ */
+export function randomSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff).toString(36);
+}
@@ -0,0 +1,102 @@
+import * as d3 from 'd3';
+import type { RandomFn } from './random';
+
+/**
+ * Bridson's Poisson-disk sampling
+ * Produces blue-noise points with no two closer than the minimum distance,
+ * giving irregular cells without grid rows/columns
+ * The distance is derived from numPoints so the result lands close to that count
+ */
+export function poissonDiskPoints(
+  width: number,
+  height: number,
+  numPoints: number,
+  random: RandomFn,
+  attempts: number = 30
+): [number, number][] {
+  // Bridson packs roughly 0.63 points per r² of area
+  const radius = Math.sqrt((width * height * 0.63) / numPoints);
+  const radius2 = radius * radius;
+  const cellSize = radius / Math.SQRT2;
+  const gridWidth = Math.ceil(width / cellSize);
+  const gridHeight = Math.ceil(height / cellSize);
+  const grid = new Int32Array(gridWidth * gridHeight).fill(-1);
+
+  const points: [number, number][] = [];
+  const active: number[] = [];
+
+  const addPoint = (x: number, y: number) => {
+    const index = points.length;
+    points.push([x, y]);
+    active.push(index);
+    grid[Math.floor(y / cellSize) * gridWidth + Math.floor(x / cellSize)] = index;
+  };
+
+  const isFarEnough = (x: number, y: number): boolean => {
+    const gx = Math.floor(x / cellSize);
+    const gy = Math.floor(y / cellSize);
+    for (let j = Math.max(0, gy - 2); j <= Math.min(gridHeight - 1, gy + 2); j++) {
+      for (let i = Math.max(0, gx - 2); i <= Math.min(gridWidth - 1, gx + 2); i++) {
+        const other = grid[j * gridWidth + i];
+        if (other < 0) continue;
+        const dx = points[other][0] - x;
+        const dy = points[other][1] - y;
+        if (dx * dx + dy * dy < radius2) return false;
+      }
+    }
+    return true;
+  };
+
+  addPoint(random() * width, random() * height);
+
+  while (active.length > 0) {
+    const activeSlot = Math.floor(random() * active.length);
+    const [px, py] = points[active[activeSlot]];
+    let found = false;
+
+    // Try candidates in the annulus [r, 2r] around the active point
+    for (let k = 0; k < attempts; k++) {
+      const angle = random() * Math.PI * 2;
+      const distance = radius * (1 + random());
+      const x = px + Math.cos(angle) * distance;
+      const y = py + Math.sin(angle) * distance;
+
+      if (x >= 0 && x < width && y >= 0 && y < height && isFarEnough(x, y)) {
+        addPoint(x, y);
+        found = true;
+        break;
+      }
+    }
+
+    // Retire points that can no longer spawn neighbors (swap-remove)
+    if (!found) {
+      active[activeSlot] = active[active.length - 1];
+      active.pop();
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Lloyd relaxation: move every point to the centroid of its Voronoi cell
+ * Each iteration makes cells more uniform in size and shape
+ */
+export function relaxPoints(
+  points: [number, number][],
+  width: number,
+  height: number,
+  iterations: number
+): [number, number][] {
+  let relaxed = points;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const voronoi = d3.Delaunay.from(relaxed).voronoi([0, 0, width, height]);
+    relaxed = relaxed.map((point, i) => {
+      const polygon = voronoi.cellPolygon(i);
+      return polygon ? d3.polygonCentroid(polygon as [number, number][]) : point;
+    });
+  }
+
+  return relaxed;
+}
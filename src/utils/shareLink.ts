@@ -0,0 +1,199 @@
+import type { MapSettings } from './history';
+import {
+  DEFAULT_TERRAIN_PARAMS,
+  rangeProblem,
+  TERRAIN_PARAM_RANGES,
+  type SettingRange,
+  type TerrainParams
+} from './terrain';
+import { HEIGHTMAP_TEMPLATES } from './templates';
+import { DEFAULT_MESH_OPTIONS, MESH_OPTION_RANGES, NUM_POINTS_RANGE, type MeshOptions } from './voronoi';
+
+export const SHARE_LINK_VERSION = 1;
+
+/**
+ * Raised for links whose settings can't be read
+ * key is the offending query key, e.g. "sl" for the sea level
+ */
+export class ShareLinkError extends Error {
+  key: string;
+
+  constructor(message: string, key: string = '') {
+    super(key ? `${key}: ${message}` : message);
+    this.name = 'ShareLinkError';
+    this.key = key;
+  }
+}
+
+// Short query keys; a Record so every new setting has to be given one
+const PARAM_KEYS: Record<keyof TerrainParams, string> = {
+  terrainMode: 'tm',
+  template: 'tp',
+  numBlobs: 'nb',
+  mainPeakHeight: 'mp',
+  secondaryPeakHeightRange: 'sp',
+  falloff: 'fo',
+  sharpness: 'sh',
+  seaLevel: 'sl',
+  continentMode: 'cm',
+  waterMargin: 'wm',
+  noiseScale: 'ns',
+  noiseAmplitude: 'na',
+  noiseOctaves: 'no',
+  noiseRidged: 'nr',
+  noiseWarp: 'nw',
+  riverThreshold: 'rt',
+  depressionLakes: 'dl',
+  equatorTemperature: 'et',
+  poleTemperature: 'pt',
+  lapseRate: 'lr',
+  precipitationScale: 'ps'
+};
+
+const MESH_KEYS: Record<keyof MeshOptions, string> = {
+  distribution: 'md',
+  relaxIterations: 'mr'
+};
+
+// Allowed ranges of the numeric settings by query key; a link outside them
+// could start a generation that never finishes
+const RANGES: Record<string, SettingRange> = {
+  n: NUM_POINTS_RANGE,
+  ...rangesByKey(MESH_OPTION_RANGES, MESH_KEYS),
+  ...rangesByKey(TERRAIN_PARAM_RANGES, PARAM_KEYS)
+};
+
+// Allowed values of the string settings
+const CHOICES: Record<string, readonly string[]> = {
+  tm: ['blob', 'template'],
+  tp: Object.keys(HEIGHTMAP_TEMPLATES),
+  md: ['jittered', 'poisson']
+};
+
+/**
+ * Encode map settings as a compact query string (for the URL hash)
+ * Every setting is written, not just the ones that differ from the defaults,
+ * so links keep reproducing their map if the defaults change. Throws
+ * ShareLinkError for settings a link can't hold, such as a CLI world with
+ * more points than the UI offers, since decoding would reject them
+ */
+export function encodeShareLink(settings: MapSettings): string {
+  const query = new URLSearchParams();
+  query.set('v', String(SHARE_LINK_VERSION));
+  query.set('s', settings.seed);
+  checkRange(settings.numPoints, 'n');
+  query.set('n', String(settings.numPoints));
+  writeFields(query, settings.meshOptions, MESH_KEYS);
+  writeFields(query, settings.params, PARAM_KEYS);
+  return query.toString();
+}
+
+/**
+ * Link to the current page that regenerates the map with these settings
+ */
+export function shareLinkURL(pageURL: string, settings: MapSettings): string {
+  return `${pageURL.split('#')[0]}#${encodeShareLink(settings)}`;
+}
+
+/**
+ * Read map settings from a URL hash
+ * Returns null when the hash holds no link; throws ShareLinkError for a link
+ * that can't be read or holds values outside the UI's ranges. Settings
+ * missing from older links take their defaults
+ */
+export function decodeShareLink(hash: string): MapSettings | null {
+  const query = new URLSearchParams(hash.replace(/^#/, ''));
+  const versionText = query.get('v');
+  if (versionText === null) return null;
+
+  const version = Number(versionText);
+  if (!Number.isInteger(version) || version < 1) throw new ShareLinkError('Expected a version number', 'v');
+  if (version > SHARE_LINK_VERSION) {
+    throw new ShareLinkError(
+      `Made by a newer version of the generator (link version ${version}, supported up to ${SHARE_LINK_VERSION})`,
+      'v'
+    );
+  }
+
+  const seed = query.get('s');
+  if (!seed) throw new ShareLinkError('Missing seed', 's');
+
+  const numPoints = Number(query.get('n'));
+  if (!query.get('n') || !Number.isFinite(numPoints)) throw new ShareLinkError('Expected a number', 'n');
+  checkRange(numPoints, 'n');
+
+  return {
+    seed,
+    numPoints,
+    meshOptions: readFields(query, DEFAULT_MESH_OPTIONS, MESH_KEYS),
+    params: readFields(query, DEFAULT_TERRAIN_PARAMS, PARAM_KEYS)
+  };
+}
+
+function writeFields<T extends object>(query: URLSearchParams, values: T, keys: Record<keyof T, string>): void {
+  for (const field of Object.keys(keys) as (keyof T)[]) {
+    const key = keys[field];
+    const value: unknown = values[field];
+    if (typeof value === 'number') checkRange(value, key);
+    if (Array.isArray(value)) value.forEach(number => checkRange(number, key));
+
+    // String() gives the shortest text that parses back to the same number
+    if (Array.isArray(value)) query.set(key, value.map(String).join(','));
+    else if (typeof value === 'boolean') query.set(key, value ? '1' : '0');
+    else query.set(key, String(value));
+  }
+}
+
+/**
+ * Parse each field according to the type of its default
+ */
+function readFields<T extends object>(query: URLSearchParams, defaults: T, keys: Record<keyof T, string>): T {
+  const result = { ...defaults } as Record<string, unknown>;
+
+  for (const field of Object.keys(keys) as (keyof T & string)[]) {
+    const key = keys[field];
+    const text = query.get(key);
+    if (text === null) continue;
+
+    const fallback: unknown = defaults[field];
+    if (Array.isArray(fallback)) {
+      const numbers = text.split(',').map(Number);
+      if (numbers.length !== fallback.length || !numbers.every(Number.isFinite)) {
+        throw new ShareLinkError(`Expected ${fallback.length} comma-separated numbers`, key);
+      }
+      numbers.forEach(number => checkRange(number, key));
+      result[field] = numbers;
+    } else if (typeof fallback === 'boolean') {
+      if (text !== '0' && text !== '1') throw new ShareLinkError('Expected 0 or 1', key);
+      result[field] = text === '1';
+    } else if (typeof fallback === 'number') {
+      const number = Number(text);
+      if (text.trim() === '' || !Number.isFinite(number)) throw new ShareLinkError('Expected a number', key);
+      checkRange(number, key);
+      result[field] = number;
+    } else {
+      const allowed = CHOICES[key];
+      if (allowed && !allowed.includes(text)) {
+        throw new ShareLinkError(`Expected one of ${allowed.map(item => `"${item}"`).join(', ')}`, key);
+      }
+      result[field] = text;
+    }
+  }
+
+  return result as T;
+}
+
+function rangesByKey<T extends string>(
+  ranges: Partial<Record<T, SettingRange>>,
+  keys: Record<T, string>
+): Record<string, SettingRange> {
+  const result: Record<string, SettingRange> = {};
+  for (const [field, range] of Object.entries(ranges) as [T, SettingRange][]) result[keys[field]] = range;
+  return result;
+}
+
+function checkRange(value: number, key: string): void {
+  const range = RANGES[key];
+  const problem = range && rangeProblem(value, range);
+  if (problem) throw new ShareLinkError(problem, key);
+}
@@ -0,0 +1,150 @@
+import type { Feature } from './coastline';
+import type { Cell } from './voronoi';
+
+export type SmoothingMethod = 'none' | 'chaikin' | 'spline';
+
+export interface CoastlineSmoothing {
+  method: SmoothingMethod;
+  iterations: number; // Chaikin passes; each doubles the point count
+  tension: number; // Spline tension: 0 is Catmull-Rom, 1 straight lines
+}
+
+export const SMOOTHING_METHODS: Record<SmoothingMethod, string> = {
+  none: 'None',
+  chaikin: 'Chaikin',
+  spline: 'Spline'
+};
+
+export const DEFAULT_COASTLINE_SMOOTHING: CoastlineSmoothing = {
+  method: 'chaikin',
+  iterations: 2,
+  tension: 0.5
+};
+
+/**
+ * Cell fills for drawing under a smoothed coastline
+ * water is drawn everywhere; land is drawn clipped to shape, the smoothed
+ * land outline. Coastal cells take their neighbor's color on the side of
+ * the coast they don't belong to, so the fill edge follows the curve
+ */
+export interface CoastFills {
+  shape: string; // SVG path data of every land ring; holes wind the other way
+  water: (string | null)[];
+  land: (string | null)[];
+}
+
+type Point = [number, number];
+
+/**
+ * Chaikin corner cutting: every edge is replaced by points at 1/4 and 3/4
+ * Pinned points (and the ends of open chains) are kept where they are
+ */
+export function chaikin(points: Point[], closed: boolean, iterations: number, pinned?: (point: Point) => boolean): Point[] {
+  let current = points;
+
+  for (let pass = 0; pass < iterations && current.length >= 3; pass++) {
+    const next: Point[] = [];
+    const edges = closed ? current.length : current.length - 1;
+
+    for (let i = 0; i < edges; i++) {
+      const [x1, y1] = current[i];
+      const [x2, y2] = current[(i + 1) % current.length];
+      // Both new points lie on the edge, so keeping a vertex between them keeps its corner
+      if ((!closed && i === 0) || pinned?.(current[i])) next.push(current[i]);
+      next.push([0.75 * x1 + 0.25 * x2, 0.75 * y1 + 0.25 * y2]);
+      next.push([0.25 * x1 + 0.75 * x2, 0.25 * y1 + 0.75 * y2]);
+    }
+    if (!closed) next.push(current[current.length - 1]);
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Cardinal spline through the points as SVG cubic Bézier commands
+ */
+export function cardinalSplinePath(points: Point[], closed: boolean, tension: number): string {
+  if (points.length < 3) return linePath(points, closed);
+
+  const n = points.length;
+  const at = (i: number): Point => (closed ? points[(i + n) % n] : points[Math.min(n - 1, Math.max(0, i))]);
+  const k = (1 - tension) / 6;
+  const parts = [`M ${format(points[0])}`];
+
+  for (let i = 0; i < (closed ? n : n - 1); i++) {
+    const [x0, y0] = at(i - 1);
+    const [x1, y1] = at(i);
+    const [x2, y2] = at(i + 1);
+    const [x3, y3] = at(i + 2);
+    const c1: Point = [x1 + (x2 - x0) * k, y1 + (y2 - y0) * k];
+    const c2: Point = [x2 - (x3 - x1) * k, y2 - (y3 - y1) * k];
+    parts.push(`C ${format(c1)} ${format(c2)} ${format([x2, y2])}`);
+  }
+
+  return closed ? parts.join(' ') + ' Z' : parts.join(' ');
+}
+
+/**
+ * SVG path data for a coastline ring with the chosen smoothing
+ * Points on the map border stay put so coasts running along it keep their corners
+ */
+export function smoothRingPath(
+  points: Point[],
+  closed: boolean,
+  smoothing: CoastlineSmoothing,
+  width: number,
+  height: number
+): string {
+  switch (smoothing.method) {
+    case 'chaikin':
+      return linePath(chaikin(points, closed, smoothing.iterations, ([x, y]) => x <= 0 || y <= 0 || x >= width || y >= height), closed);
+    case 'spline':
+      return cardinalSplinePath(points, closed, smoothing.tension);
+    default:
+      return linePath(points, closed);
+  }
+}
+
+/**
+ * Smoothed outline of all land, or null when there is nothing to smooth or a
+ * feature has an open coastline (which can't bound a fill)
+ */
+export function landShapePath(features: Feature[], smoothing: CoastlineSmoothing, width: number, height: number): string | null {
+  if (smoothing.method === 'none') return null;
+
+  const parts: string[] = [];
+  for (const feature of features) {
+    if (!feature.land) continue;
+    if (!feature.rings || feature.rings.some(ring => !ring.closed)) return null;
+    for (const ring of feature.rings) parts.push(smoothRingPath(ring.points, true, smoothing, width, height));
+  }
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+/**
+ * Split per-cell fills into the water and land side of the coast
+ */
+export function coastFills(cells: Cell[], fills: (string | null)[], shape: string): CoastFills {
+  const neighborFill = (cell: Cell, land: boolean): string | null => {
+    const neighborId = cell.neighbors.find(id => cells[id].isLand === land);
+    return neighborId === undefined ? null : fills[neighborId];
+  };
+
+  return {
+    shape,
+    water: cells.map(cell => (cell.isLand ? neighborFill(cell, false) ?? fills[cell.id] : fills[cell.id])),
+    land: cells.map(cell => (cell.isLand ? fills[cell.id] : neighborFill(cell, true)))
+  };
+}
+
+function linePath(points: Point[], closed: boolean): string {
+  if (points.length === 0) return '';
+  const path = points.map((point, i) => `${i === 0 ? 'M' : 'L'} ${format(point)}`).join(' ');
+  return closed ? path + ' Z' : path;
+}
+
+function format([x, y]: Point): string {
+  return `${+x.toFixed(2)} ${+y.toFixed(2)}`;
+}
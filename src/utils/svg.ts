@@ -0,0 +1,183 @@
+import { seaSurfaceHeight, shelfOutlinePath } from './bathymetry';
+import { HEIGHT_COLORS, LAKE_COLORS } from './color';
+import type { CoastlineRing, Feature } from './coastline';
+import type { River } from './hydrology';
+import { effectiveSeaLevel } from './terrain';
+import {
+  coastFills,
+  DEFAULT_COASTLINE_SMOOTHING,
+  landShapePath,
+  smoothRingPath,
+  type CoastlineSmoothing
+} from './smoothing';
+import type { World } from './world';
+
+// River width in pixels at the source, and growth with the square root of drainage
+const RIVER_SOURCE_WIDTH = 0.4;
+const RIVER_WIDTH_GROWTH = 0.5;
+const RIVER_MAX_WIDTH = 6;
+export const RIVER_COLOR = '#3b6fc4';
+
+// Selected feature and inspected cell on the map
+export const HIGHLIGHT_STYLE = {
+  fill: 'rgba(255, 214, 0, 0.35)',
+  stroke: '#ffd600',
+  cellStroke: '#fff'
+};
+
+// Dashed line where the continental shelf drops into deep ocean
+export const SHELF_STYLE = {
+  stroke: 'rgba(255, 255, 255, 0.45)',
+  strokeWidth: 0.8,
+  dash: [4, 3]
+};
+
+/**
+ * Convert a cell polygon to an SVG path string
+ */
+export function polygonToSVGPath(polygon: [number, number][]): string {
+  return polygon
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${point[0]} ${point[1]}`)
+    .join(' ') + ' Z';
+}
+
+/**
+ * Stroke for a coastline ring: lake shores (lakes and the holes they leave in
+ * their landmass) get a thin blue line, everything else a heavy dark outline
+ */
+export function coastlineStyle(feature: Feature, ring?: CoastlineRing): { stroke: string; strokeWidth: number } {
+  return feature.type === 'lake' || ring?.hole
+    ? { stroke: LAKE_COLORS.shore, strokeWidth: 1 }
+    : { stroke: '#222', strokeWidth: 2 };
+}
+
+/**
+ * One styled path per coastline ring of every feature
+ */
+export function coastlinePaths(
+  features: Feature[],
+  smoothing: CoastlineSmoothing,
+  width: number,
+  height: number
+): { key: string; d: string; stroke: string; strokeWidth: number }[] {
+  return features.flatMap(feature =>
+    (feature.rings ?? []).map((ring, i) => ({
+      key: `${feature.id}-${i}`,
+      d: smoothRingPath(ring.points, ring.closed, smoothing, width, height),
+      ...coastlineStyle(feature, ring)
+    }))
+  );
+}
+
+/**
+ * Convert a river polyline to a closed, tapered outline
+ * Width grows with drainage relative to the source, so rivers widen
+ * downstream and tributaries start as thin threads
+ */
+export function riverToSVGPath(river: River): string {
+  const { points, flow } = river;
+  if (points.length < 2) return '';
+
+  const sourceFlow = flow[0] || 1;
+  const left: [number, number][] = [];
+  const right: [number, number][] = [];
+
+  points.forEach((point, i) => {
+    // Tangent from the neighboring points; the outline is offset along its normal
+    const prev = points[Math.max(0, i - 1)];
+    const next = points[Math.min(points.length - 1, i + 1)];
+    const dx = next[0] - prev[0];
+    const dy = next[1] - prev[1];
+    const length = Math.hypot(dx, dy) || 1;
+
+    const width = Math.min(
+      RIVER_MAX_WIDTH,
+      RIVER_SOURCE_WIDTH + RIVER_WIDTH_GROWTH * (Math.sqrt(flow[i] / sourceFlow) - 1)
+    );
+    const offsetX = (-dy / length) * width / 2;
+    const offsetY = (dx / length) * width / 2;
+
+    left.push([point[0] + offsetX, point[1] + offsetY]);
+    right.push([point[0] - offsetX, point[1] - offsetY]);
+  });
+
+  const outline = [...left, ...right.reverse()];
+  return outline
+    .map((point, index) => `${index === 0 ? 'M' : 'L'} ${point[0].toFixed(2)} ${point[1].toFixed(2)}`)
+    .join(' ') + ' Z';
+}
+
+/**
+ * Per-cell colors to export instead of the stored height coloring,
+ * e.g. biome colors and the climate overlay currently shown in the app
+ */
+export interface SVGFills {
+  cells?: (string | null)[];
+  overlay?: (string | null)[] | null;
+}
+
+/**
+ * Serialize a generated world to a standalone SVG document
+ * Mirrors the layering of the MapGenerator view: water background,
+ * colored cell polygons, climate overlay, shelf outline, rivers, then
+ * coastline strokes
+ */
+export function worldToSVG(
+  world: World,
+  fills: SVGFills = {},
+  smoothing: CoastlineSmoothing = DEFAULT_COASTLINE_SMOOTHING,
+  shelfOutline: boolean = false
+): string {
+  const { width, height, cells, features, rivers, params } = world;
+
+  const cellLayer = (layerFills: (string | null)[]) => cells
+    .filter(cell => cell.polygon && cell.polygon.length >= 3 && layerFills[cell.id])
+    .map(cell => `<path d="${polygonToSVGPath(cell.polygon)}" fill="${layerFills[cell.id]}" stroke="none"/>`)
+    .join('');
+
+  // Under a smoothed coastline the land side is clipped to the same curve the stroke follows
+  const baseFills = cells.map(cell => fills.cells?.[cell.id] || cell.color || '#000');
+  const landShape = landShapePath(features, smoothing, width, height);
+  const coast = landShape ? coastFills(cells, baseFills, landShape) : null;
+  const cellGroups = coast
+    ? [
+      `<g clip-path="url(#mapClip)">${cellLayer(coast.water)}</g>`,
+      `<g clip-path="url(#mapClip)"><g clip-path="url(#landClip)">${cellLayer(coast.land)}</g></g>`
+    ]
+    : [`<g clip-path="url(#mapClip)">${cellLayer(baseFills)}</g>`];
+
+  const overlayPaths = fills.overlay
+    ? cells
+      .filter(cell => cell.polygon && cell.polygon.length >= 3 && fills.overlay![cell.id])
+      .map(cell => `<path d="${polygonToSVGPath(cell.polygon)}" fill="${fills.overlay![cell.id]}" stroke="none"/>`)
+    : [];
+
+  const shelf = shelfOutline
+    ? shelfOutlinePath(cells, features, seaSurfaceHeight(cells, effectiveSeaLevel(params)), width, height)
+    : '';
+
+  const riverPaths = rivers
+    .map(river => riverToSVGPath(river))
+    .filter(pathData => pathData !== '')
+    .map(pathData => `<path d="${pathData}" fill="${RIVER_COLOR}" stroke="none"/>`);
+
+  const coastlines = coastlinePaths(features, smoothing, width, height).map(({ d, stroke, strokeWidth }) =>
+    `<path d="${d}" fill="none" stroke="${stroke}" stroke-width="${strokeWidth}" stroke-linejoin="round" stroke-linecap="round"/>`
+  );
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<defs><clipPath id="mapClip"><rect width="${width}" height="${height}"/></clipPath>${
+      coast ? `<clipPath id="landClip"><path d="${coast.shape}"/></clipPath>` : ''
+    }</defs>`,
+    `<rect width="${width}" height="${height}" fill="${HEIGHT_COLORS.deepWater}"/>`,
+    ...cellGroups,
+    ...(overlayPaths.length > 0 ? [`<g clip-path="url(#mapClip)" opacity="0.7">${overlayPaths.join('')}</g>`] : []),
+    ...(shelf
+      ? [`<path d="${shelf}" fill="none" stroke="${SHELF_STYLE.stroke}" stroke-width="${SHELF_STYLE.strokeWidth}" stroke-dasharray="${SHELF_STYLE.dash.join(' ')}" clip-path="url(#mapClip)"/>`]
+      : []),
+    `<g clip-path="url(#mapClip)">${riverPaths.join('')}</g>`,
+    `<g clip-path="url(#mapClip)">${coastlines.join('')}</g>`,
+    '</svg>'
+  ].join('\n');
+}
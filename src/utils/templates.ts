@@ -0,0 +1,697 @@
+import * as d3 from 'd3';
+import { cellNeighbors, type MeshGraph } from './mesh';
+import type { RandomFn } from './random';
+
+/**
+ * Azgaar-style heightmap templates
+ *
+ * A template is a list of steps, one per line:
+ *   Hill|Pit|Range|Trough <count> <height> <x%> <y%>
+ *   Strait <width> vertical|horizontal
+ *   Mask <power>
+ *   Add|Multiply <value> all|land|<min-max>
+ *   Smooth <factor>
+ *   Invert <probability> x|y|both
+ * Numbers may be ranges ("5-10"), sampled uniformly; fractional counts are
+ * rounded up with a probability equal to the fraction. Heights use a 0-100
+ * scale with land starting at 20, and are written to the mesh as 0-1
+ */
+export type TemplateStep =
+  | { type: 'Hill' | 'Pit' | 'Range' | 'Trough'; count: string; height: string; x: string; y: string }
+  | { type: 'Strait'; width: string; direction: 'vertical' | 'horizontal' }
+  | { type: 'Mask'; power: number }
+  | { type: 'Add' | 'Multiply'; value: number; range: string }
+  | { type: 'Smooth'; factor: number }
+  | { type: 'Invert'; probability: number; axes: 'x' | 'y' | 'both' };
+
+export type TemplateName =
+  | 'volcano'
+  | 'archipelago'
+  | 'pangea'
+  | 'isthmus'
+  | 'shattered'
+  | 'continents'
+  | 'inlandSea'
+  | 'fjords';
+
+export interface HeightmapTemplate {
+  name: string;
+  source: string;
+}
+
+export const HEIGHTMAP_TEMPLATES: Record<TemplateName, HeightmapTemplate> = {
+  volcano: {
+    name: 'Volcano',
+    source: `
+      Hill 1 90-100 44-56 40-60
+      Multiply 0.8 50-100
+      Range 1.5 30-55 45-55 40-60
+      Smooth 3
+      Hill 1.5 35-45 25-30 20-75
+      Hill 1 35-55 75-80 25-75
+      Hill 0.5 20-25 10-15 20-25
+      Mask 3`
+  },
+  archipelago: {
+    name: 'Archipelago',
+    source: `
+      Add 11 all
+      Range 2-3 40-60 20-80 20-80
+      Hill 5 15-20 10-90 30-70
+      Hill 2 10-15 10-30 20-80
+      Hill 2 10-15 60-90 20-80
+      Smooth 3
+      Trough 10 20-30 5-95 5-95
+      Strait 2 vertical
+      Strait 2 horizontal`
+  },
+  pangea: {
+    name: 'Pangea',
+    source: `
+      Hill 1-2 25-40 15-50 0-10
+      Hill 1-2 5-40 50-85 0-10
+      Hill 1-2 25-40 50-85 90-100
+      Hill 1-2 5-40 15-50 90-100
+      Hill 8-12 20-40 20-80 48-52
+      Smooth 2
+      Multiply 0.7 land
+      Trough 3-4 25-35 5-95 10-20
+      Trough 3-4 25-35 5-95 80-90
+      Range 5-6 30-40 10-90 35-65`
+  },
+  isthmus: {
+    name: 'Isthmus',
+    source: `
+      Hill 5-10 15-30 0-30 0-20
+      Hill 5-10 15-30 10-50 20-40
+      Hill 5-10 15-30 30-70 40-60
+      Hill 5-10 15-30 50-90 60-80
+      Hill 5-10 15-30 70-100 80-100
+      Smooth 2
+      Trough 4-8 15-30 0-30 0-20
+      Trough 4-8 15-30 10-50 20-40
+      Trough 4-8 15-30 30-70 40-60
+      Trough 4-8 15-30 50-90 60-80
+      Trough 4-8 15-30 70-100 80-100`
+  },
+  shattered: {
+    name: 'Shattered',
+    source: `
+      Hill 8 35-40 15-85 30-70
+      Trough 10-20 40-50 5-95 5-95
+      Range 5-7 30-40 10-90 20-80
+      Pit 12-20 30-40 15-85 20-80`
+  },
+  continents: {
+    name: 'Twin Continents',
+    source: `
+      Hill 1 80-85 15-25 40-60
+      Hill 1 80-85 75-85 40-60
+      Hill 5-6 15-30 5-30 15-85
+      Hill 5-6 15-30 70-95 15-85
+      Multiply 0.6 land
+      Range 1-2 30-60 10-25 25-75
+      Range 1-2 30-60 75-90 25-75
+      Smooth 3
+      Trough 3-4 40-50 45-55 10-90
+      Strait 4-5 vertical
+      Trough 2-3 15-20 15-85 20-80
+      Pit 3-4 10-20 15-85 20-80
+      Mask 4`
+  },
+  inlandSea: {
+    name: 'Inland Sea',
+    source: `
+      Add 40 all
+      Hill 5-6 30-40 10-90 5-20
+      Hill 5-6 30-40 10-90 80-95
+      Hill 2-3 30-40 5-15 20-80
+      Hill 2-3 30-40 85-95 20-80
+      Smooth 2
+      Mask -1
+      Range 2-3 30-50 10-90 5-20
+      Range 2-3 30-50 10-90 80-95
+      Mask 3`
+  },
+  fjords: {
+    name: 'Fjord Coast',
+    source: `
+      Hill 6-8 40-60 10-90 5-40
+      Range 4-5 40-60 10-90 10-30
+      Hill 3-4 20-30 10-90 35-55
+      Smooth 2
+      Trough 12-16 30-45 5-95 30-60
+      Pit 5-8 20-30 10-90 20-50
+      Hill 6-10 10-20 5-95 55-75
+      Mask 2`
+  }
+};
+
+/**
+ * Error thrown for malformed template source, with the offending line number
+ */
+export class TemplateParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Template line ${line}: ${message}`);
+    this.name = 'TemplateParseError';
+    this.line = line;
+  }
+}
+
+const RANGE_PATTERN = /^-?\d+(\.\d+)?(--?\d+(\.\d+)?)?$/;
+
+/**
+ * Parse template source into typed steps
+ * Blank lines and lines starting with # are ignored
+ */
+export function parseTemplate(source: string): TemplateStep[] {
+  const steps: TemplateStep[] = [];
+  const lines = source.split('\n');
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [type, ...args] = line.split(/\s+/);
+    const expectArgs = (count: number) => {
+      if (args.length !== count) {
+        throw new TemplateParseError(`${type} expects ${count} arguments, got ${args.length}`, lineNumber);
+      }
+    };
+    const expectRange = (value: string, name: string) => {
+      if (!RANGE_PATTERN.test(value)) {
+        throw new TemplateParseError(`${type} ${name} must be a number or range, got "${value}"`, lineNumber);
+      }
+      return value;
+    };
+    const expectNumber = (value: string, name: string) => {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw new TemplateParseError(`${type} ${name} must be a number, got "${value}"`, lineNumber);
+      }
+      return parsed;
+    };
+
+    switch (type) {
+      case 'Hill':
+      case 'Pit':
+      case 'Range':
+      case 'Trough':
+        expectArgs(4);
+        steps.push({
+          type,
+          count: expectRange(args[0], 'count'),
+          height: expectRange(args[1], 'height'),
+          x: expectRange(args[2], 'x'),
+          y: expectRange(args[3], 'y')
+        });
+        break;
+      case 'Strait':
+        expectArgs(2);
+        if (args[1] !== 'vertical' && args[1] !== 'horizontal') {
+          throw new TemplateParseError(`Strait direction must be vertical or horizontal, got "${args[1]}"`, lineNumber);
+        }
+        steps.push({ type, width: expectRange(args[0], 'width'), direction: args[1] });
+        break;
+      case 'Mask':
+        expectArgs(1);
+        steps.push({ type, power: expectNumber(args[0], 'power') });
+        break;
+      case 'Add':
+      case 'Multiply':
+        expectArgs(2);
+        if (args[1] !== 'all' && args[1] !== 'land') expectRange(args[1], 'range');
+        steps.push({ type, value: expectNumber(args[0], 'value'), range: args[1] });
+        break;
+      case 'Smooth':
+        expectArgs(1);
+        steps.push({ type, factor: expectNumber(args[0], 'factor') });
+        break;
+      case 'Invert':
+        expectArgs(2);
+        if (args[1] !== 'x' && args[1] !== 'y' && args[1] !== 'both') {
+          throw new TemplateParseError(`Invert axes must be x, y or both, got "${args[1]}"`, lineNumber);
+        }
+        steps.push({ type, probability: expectNumber(args[0], 'probability'), axes: args[1] });
+        break;
+      default:
+        throw new TemplateParseError(`Unknown step "${type}"`, lineNumber);
+    }
+  });
+
+  return steps;
+}
+
+const LAND_HEIGHT = 20; // Template-scale height where land begins
+
+/**
+ * Sea level every template is built around, on the 0-1 height scale
+ */
+export const TEMPLATE_SEA_LEVEL = LAND_HEIGHT / 100;
+
+// Spread decay per BFS ring, tuned by mesh density so shapes stay similar in size
+const BLOB_POWER: [number, number][] = [
+  [1000, 0.93], [2000, 0.95], [5000, 0.97], [10000, 0.98], [20000, 0.99],
+  [30000, 0.991], [40000, 0.993], [50000, 0.994], [60000, 0.995],
+  [70000, 0.9955], [80000, 0.996], [90000, 0.9964], [100000, 0.9973]
+];
+const LINE_POWER: [number, number][] = [
+  [1000, 0.75], [2000, 0.77], [5000, 0.79], [10000, 0.81], [20000, 0.82],
+  [30000, 0.83], [40000, 0.84], [50000, 0.86], [60000, 0.87],
+  [70000, 0.88], [80000, 0.91], [90000, 0.92], [100000, 0.93]
+];
+
+function powerForSize(table: [number, number][], size: number): number {
+  for (const [cells, power] of table) {
+    if (size <= cells) return power;
+  }
+  return table[table.length - 1][1];
+}
+
+/**
+ * Mutable state shared by the step implementations
+ */
+interface TemplateContext {
+  graph: MeshGraph;
+  delaunay: d3.Delaunay<number[]>;
+  heights: Float64Array; // 0-100 template scale
+  width: number;
+  height: number;
+  random: RandomFn;
+  blobPower: number;
+  linePower: number;
+}
+
+/**
+ * Execute template steps against the mesh, writing 0-1 heights into graph.heights
+ */
+export function runTemplate(
+  graph: MeshGraph,
+  steps: TemplateStep[],
+  width: number,
+  height: number,
+  random: RandomFn
+): void {
+  const coords = new Float64Array(graph.size * 2);
+  for (let i = 0; i < graph.size; i++) {
+    coords[i * 2] = graph.x[i];
+    coords[i * 2 + 1] = graph.y[i];
+  }
+
+  const context: TemplateContext = {
+    graph,
+    delaunay: new d3.Delaunay(coords),
+    heights: new Float64Array(graph.size),
+    width,
+    height,
+    random,
+    blobPower: powerForSize(BLOB_POWER, graph.size),
+    linePower: powerForSize(LINE_POWER, graph.size)
+  };
+
+  for (const step of steps) {
+    switch (step.type) {
+      case 'Hill':
+      case 'Pit': {
+        const count = sampleCount(step.count, random);
+        for (let i = 0; i < count; i++) {
+          if (step.type === 'Hill') addHill(context, step.height, step.x, step.y);
+          else addPit(context, step.height, step.x, step.y);
+        }
+        break;
+      }
+      case 'Range':
+      case 'Trough': {
+        const count = sampleCount(step.count, random);
+        for (let i = 0; i < count; i++) {
+          addRange(context, step.height, step.x, step.y, step.type === 'Trough');
+        }
+        break;
+      }
+      case 'Strait':
+        addStrait(context, step.width, step.direction);
+        break;
+      case 'Mask':
+        applyMask(context, step.power);
+        break;
+      case 'Add':
+        modifyHeights(context, step.range, h => h + step.value, step.range === 'land');
+        break;
+      case 'Multiply':
+        modifyHeights(
+          context,
+          step.range,
+          h => step.range === 'land' ? (h - LAND_HEIGHT) * step.value + LAND_HEIGHT : h * step.value,
+          step.range === 'land'
+        );
+        break;
+      case 'Smooth':
+        smoothHeights(context, step.factor);
+        break;
+      case 'Invert':
+        if (random() < step.probability) invertHeights(context, step.axes);
+        break;
+    }
+  }
+
+  for (let i = 0; i < graph.size; i++) {
+    graph.heights[i] = context.heights[i] / 100;
+  }
+}
+
+function clampHeight(value: number): number {
+  return Math.max(0, Math.min(100, value));
+}
+
+/**
+ * Sample a number from "a" or "a-b"
+ */
+function sampleRange(range: string, random: RandomFn): number {
+  const match = /^(-?\d+(?:\.\d+)?)(?:-(-?\d+(?:\.\d+)?))?$/.exec(range);
+  if (!match) return 0;
+  const min = Number(match[1]);
+  const max = match[2] !== undefined ? Number(match[2]) : min;
+  return min + random() * (max - min);
+}
+
+/**
+ * Sample an integer count; the fractional part is the chance of one extra
+ */
+function sampleCount(range: string, random: RandomFn): number {
+  const value = sampleRange(range, random);
+  const whole = Math.floor(value);
+  return whole + (random() < value - whole ? 1 : 0);
+}
+
+/**
+ * Sample a pixel coordinate from a percentage range of the given length
+ */
+function samplePoint(range: string, length: number, random: RandomFn): number {
+  return (sampleRange(range, random) / 100) * length;
+}
+
+function findCell(context: TemplateContext, x: number, y: number): number {
+  return context.delaunay.find(x, y);
+}
+
+/**
+ * Raise a blob that spreads outwards from a random start cell,
+ * decaying by blobPower per ring
+ */
+function addHill(context: TemplateContext, heightRange: string, rangeX: string, rangeY: string): void {
+  const { graph, heights, random, blobPower } = context;
+  // Integer steps make the spread die out once the increment drops below 2
+  const change = new Uint8Array(graph.size);
+  const peak = clampHeight(sampleRange(heightRange, random));
+
+  // Avoid stacking a new hill on top of an existing peak
+  let start = -1;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const candidate = findCell(
+      context,
+      samplePoint(rangeX, context.width, random),
+      samplePoint(rangeY, context.height, random)
+    );
+    start = candidate;
+    if (heights[candidate] + peak <= 90) break;
+  }
+
+  change[start] = peak;
+  const queue = [start];
+  for (let head = 0; head < queue.length; head++) {
+    const current = queue[head];
+    for (const neighbor of cellNeighbors(graph, current)) {
+      if (change[neighbor]) continue;
+      change[neighbor] = change[current] ** blobPower * (random() * 0.2 + 0.9);
+      if (change[neighbor] > 1) queue.push(neighbor);
+    }
+  }
+
+  for (let i = 0; i < graph.size; i++) {
+    heights[i] = clampHeight(heights[i] + change[i]);
+  }
+}
+
+/**
+ * Dig a depression that spreads outwards from a random land cell
+ */
+function addPit(context: TemplateContext, heightRange: string, rangeX: string, rangeY: string): void {
+  const { graph, heights, random, blobPower } = context;
+  const used = new Uint8Array(graph.size);
+  let depth = clampHeight(sampleRange(heightRange, random));
+
+  // Pits only make sense on land
+  let start = -1;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const candidate = findCell(
+      context,
+      samplePoint(rangeX, context.width, random),
+      samplePoint(rangeY, context.height, random)
+    );
+    start = candidate;
+    if (heights[candidate] >= LAND_HEIGHT) break;
+  }
+
+  // The depth decays with every cell processed, so pits stay local
+  const queue = [start];
+  used[start] = 1;
+  for (let head = 0; head < queue.length; head++) {
+    depth = depth ** blobPower * (random() * 0.2 + 0.9);
+    if (depth < 1) break;
+
+    for (const neighbor of cellNeighbors(graph, queue[head])) {
+      if (used[neighbor]) continue;
+      used[neighbor] = 1;
+      heights[neighbor] = clampHeight(heights[neighbor] - depth * (random() * 0.2 + 0.9));
+      queue.push(neighbor);
+    }
+  }
+}
+
+/**
+ * Greedy walk across the mesh from start to end, occasionally wandering
+ */
+function tracePath(context: TemplateContext, start: number, end: number, used: Uint8Array): number[] {
+  const { graph, random } = context;
+  const path = [start];
+  used[start] = 1;
+  let current = start;
+  const endX = graph.x[end];
+  const endY = graph.y[end];
+
+  while (current !== end) {
+    let best = Infinity;
+    let next = -1;
+    for (const neighbor of cellNeighbors(graph, current)) {
+      if (used[neighbor]) continue;
+      let distance = (endX - graph.x[neighbor]) ** 2 + (endY - graph.y[neighbor]) ** 2;
+      if (random() > 0.85) distance /= 2;
+      if (distance < best) {
+        best = distance;
+        next = neighbor;
+      }
+    }
+    if (next === -1) break;
+    current = next;
+    path.push(current);
+    used[current] = 1;
+  }
+
+  return path;
+}
+
+/**
+ * Raise (or for troughs, lower) a mountain chain along a wandering line,
+ * then add spurs descending from the ridge
+ */
+function addRange(
+  context: TemplateContext,
+  heightRange: string,
+  rangeX: string,
+  rangeY: string,
+  trough: boolean
+): void {
+  const { graph, heights, random, linePower, width, height } = context;
+  const used = new Uint8Array(graph.size);
+  let amount = clampHeight(sampleRange(heightRange, random));
+
+  // Pick start, then an end a reasonable distance away
+  let startX = samplePoint(rangeX, width, random);
+  let startY = samplePoint(rangeY, height, random);
+  if (trough) {
+    // Troughs cut into existing land
+    for (let attempt = 0; attempt < 50; attempt++) {
+      if (heights[findCell(context, startX, startY)] >= LAND_HEIGHT) break;
+      startX = samplePoint(rangeX, width, random);
+      startY = samplePoint(rangeY, height, random);
+    }
+  }
+
+  let endX = startX;
+  let endY = startY;
+  for (let attempt = 0; attempt < 50; attempt++) {
+    endX = width * 0.1 + random() * width * 0.8;
+    endY = height * 0.15 + random() * height * 0.7;
+    const distance = Math.abs(endY - startY) + Math.abs(endX - startX);
+    if (distance >= width / 8 && distance <= width / 3) break;
+  }
+
+  const ridge = tracePath(context, findCell(context, startX, startY), findCell(context, endX, endY), used);
+
+  // Spread the change outwards from the ridge ring by ring
+  let frontier = ridge.slice();
+  let rings = 0;
+  while (frontier.length > 0) {
+    rings++;
+    for (const cell of frontier) {
+      const delta = amount * (random() * 0.3 + 0.85);
+      heights[cell] = clampHeight(trough ? heights[cell] - delta : heights[cell] + delta);
+    }
+    amount = amount ** linePower - 1;
+    if (amount < 2) break;
+
+    const next: number[] = [];
+    for (const cell of frontier) {
+      for (const neighbor of cellNeighbors(graph, cell)) {
+        if (used[neighbor]) continue;
+        used[neighbor] = 1;
+        next.push(neighbor);
+      }
+    }
+    frontier = next;
+  }
+
+  // Spurs: every sixth ridge cell drains down through its lowest neighbors
+  for (let d = 0; d < ridge.length; d += 6) {
+    let current = ridge[d];
+    for (let l = 0; l < rings; l++) {
+      let target = -1;
+      for (const neighbor of cellNeighbors(graph, current)) {
+        if (target === -1 || heights[neighbor] < heights[target]) target = neighbor;
+      }
+      if (target === -1) break;
+      heights[target] = (heights[current] * 2 + heights[target]) / 3;
+      current = target;
+    }
+  }
+}
+
+/**
+ * Carve a water passage across the map
+ */
+function addStrait(context: TemplateContext, widthRange: string, direction: 'vertical' | 'horizontal'): void {
+  const { graph, heights, random, width, height } = context;
+  const used = new Uint8Array(graph.size);
+  const vertical = direction === 'vertical';
+
+  // Width is in cell rings; keep it well under a third of the map
+  const cellsAcross = Math.sqrt(graph.size * (width / height));
+  const desiredWidth = Math.max(1, Math.min(Math.round(sampleRange(widthRange, random)), Math.floor(cellsAcross / 3)));
+
+  const startX = vertical ? width * 0.3 + random() * width * 0.4 : 5;
+  const startY = vertical ? 5 : height * 0.3 + random() * height * 0.4;
+  const endX = vertical ? width - startX - width * 0.1 + random() * width * 0.2 : width - 5;
+  const endY = vertical ? height - 5 : height - startY - height * 0.1 + random() * height * 0.2;
+
+  let band = tracePath(context, findCell(context, startX, startY), findCell(context, endX, endY), new Uint8Array(graph.size));
+  const step = 0.1 / desiredWidth;
+
+  for (let ring = 0; ring < desiredWidth; ring++) {
+    const exponent = 0.9 - step * ring;
+    const next: number[] = [];
+    for (const cell of band) {
+      for (const neighbor of cellNeighbors(graph, cell)) {
+        if (used[neighbor]) continue;
+        used[neighbor] = 1;
+        next.push(neighbor);
+        heights[neighbor] = heights[neighbor] ** exponent;
+        if (heights[neighbor] > 100) heights[neighbor] = 5;
+      }
+    }
+    band = next;
+  }
+}
+
+/**
+ * Fade heights towards the map edges (negative power fades the center instead)
+ */
+function applyMask(context: TemplateContext, power: number): void {
+  const { graph, heights, width, height } = context;
+  const factor = power ? Math.abs(power) : 1;
+
+  for (let i = 0; i < graph.size; i++) {
+    const nx = (2 * graph.x[i]) / width - 1;
+    const ny = (2 * graph.y[i]) / height - 1;
+    let distance = (1 - nx * nx) * (1 - ny * ny);
+    if (power < 0) distance = 1 - distance;
+    const masked = heights[i] * distance;
+    heights[i] = clampHeight((heights[i] * (factor - 1) + masked) / factor);
+  }
+}
+
+/**
+ * Apply an operation to heights within a range ("all", "land" or "min-max")
+ * Land stays land when keepLand is set
+ */
+function modifyHeights(
+  context: TemplateContext,
+  range: string,
+  operation: (height: number) => number,
+  keepLand: boolean
+): void {
+  const { graph, heights } = context;
+  let min = 0;
+  let max = 100;
+  if (range === 'land') {
+    min = LAND_HEIGHT;
+  } else if (range !== 'all') {
+    const [low, high] = range.split('-').map(Number);
+    min = low;
+    max = high ?? low;
+  }
+
+  for (let i = 0; i < graph.size; i++) {
+    const h = heights[i];
+    if (h < min || h > max) continue;
+    const modified = operation(h);
+    heights[i] = clampHeight(keepLand ? Math.max(modified, LAND_HEIGHT) : modified);
+  }
+}
+
+/**
+ * Blend each height with the mean of itself and its neighbors
+ */
+function smoothHeights(context: TemplateContext, factor: number): void {
+  const { graph, heights } = context;
+  const previous = heights.slice();
+
+  for (let i = 0; i < graph.size; i++) {
+    let sum = previous[i];
+    let count = 1;
+    for (const neighbor of cellNeighbors(graph, i)) {
+      sum += previous[neighbor];
+      count++;
+    }
+    const mean = sum / count;
+    heights[i] = factor <= 1 ? mean : clampHeight((previous[i] * (factor - 1) + mean) / factor);
+  }
+}
+
+/**
+ * Mirror the heightmap along one or both axes
+ */
+function invertHeights(context: TemplateContext, axes: 'x' | 'y' | 'both'): void {
+  const { graph, heights, width, height } = context;
+  const previous = heights.slice();
+  const flipX = axes !== 'y';
+  const flipY = axes !== 'x';
+
+  for (let i = 0; i < graph.size; i++) {
+    const x = flipX ? width - graph.x[i] : graph.x[i];
+    const y = flipY ? height - graph.y[i] : graph.y[i];
+    heights[i] = previous[findCell(context, x, y)];
+  }
+}
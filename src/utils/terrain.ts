@@ -1,16 +1,114 @@
 import type { Cell, VoronoiMesh } from './voronoi';
+import type { MeshGraph } from './mesh';
+import { HEIGHTMAP_TEMPLATES, parseTemplate, runTemplate, TEMPLATE_SEA_LEVEL, type TemplateName } from './templates';
+import type { RandomFn } from './random';
+import { createNoise2D, fbm, ridged, domainWarp } from './noise';
+import type { ClimateParams } from './climate';
 
-export interface TerrainParams {
+export type TerrainMode = 'blob' | 'template';
+
+export interface TerrainParams extends ClimateParams {
+  terrainMode: TerrainMode; // Blob algorithm or a heightmap template
+  template: TemplateName; // Built-in template used in template mode
   numBlobs: number;
   mainPeakHeight: number;
   secondaryPeakHeightRange: [number, number];
   falloff: number;
   sharpness: number;
-  seaLevel: number;
+  seaLevel: number; // Blob mode only: templates always use TEMPLATE_SEA_LEVEL
   continentMode: boolean; // New parameter for continental generation
   waterMargin: number; // New parameter for edge buffer
+  noiseScale: number; // Multiplier on noise frequency (higher = smaller coastline detail)
+  noiseAmplitude: number; // Strength of noise on blob heights and edges (0 = none, 1 = strong)
+  noiseOctaves: number; // fBm octaves layered into the noise
+  noiseRidged: boolean; // Ridged noise for crest-like mountain chains
+  noiseWarp: number; // Domain warp strength (0 = none)
+  riverThreshold: number; // Minimum drainage area for a river, in percent of the map
+  depressionLakes: boolean; // Fill closed land depressions with lakes
 }
 
+export const DEFAULT_TERRAIN_PARAMS: TerrainParams = {
+  terrainMode: 'blob',
+  template: 'volcano',
+  numBlobs: 1, // Single blob for one big continent instead of two circles
+  mainPeakHeight: 1.0,
+  secondaryPeakHeightRange: [0.3, 0.7],
+  falloff: 2.0, // Reduced from 2.8 for more moderate continental generation
+  sharpness: 0.1,
+  seaLevel: 0.15, // Reduced from 0.2 to ensure more land appears
+  continentMode: true, // Enable continental generation by default
+  waterMargin: 50, // New parameter for edge buffer
+  noiseScale: 1.0,
+  noiseAmplitude: 0.5, // Heights vary 50-100%, edges shift ±50%
+  noiseOctaves: 4,
+  noiseRidged: false,
+  noiseWarp: 0.5,
+  riverThreshold: 0.4,
+  depressionLakes: true,
+  equatorTemperature: 27,
+  poleTemperature: -25,
+  lapseRate: 6.5,
+  precipitationScale: 1
+};
+
+/**
+ * Allowed values of a numeric setting; step is the UI slider's increment
+ */
+export interface SettingRange {
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+type NumericParam = {
+  [K in keyof TerrainParams]: TerrainParams[K] extends number | number[] ? K : never;
+}[keyof TerrainParams];
+
+// Shared by the UI sliders and every reader of saved settings (share links,
+// preset and world files): values outside them can stall generation
+export const TERRAIN_PARAM_RANGES: Record<NumericParam, SettingRange> = {
+  numBlobs: { min: 1, max: 20, step: 1, integer: true },
+  mainPeakHeight: { min: 0, max: 1, step: 0.05 },
+  secondaryPeakHeightRange: { min: 0, max: 1, step: 0.05 },
+  falloff: { min: 0.7, max: 4, step: 0.1 },
+  sharpness: { min: 0, max: 0.3, step: 0.01 },
+  seaLevel: { min: 0.1, max: 0.4, step: 0.01 },
+  waterMargin: { min: 0, max: 100, step: 1 },
+  noiseScale: { min: 0.2, max: 4, step: 0.1 },
+  noiseAmplitude: { min: 0, max: 1, step: 0.05 },
+  noiseOctaves: { min: 1, max: 8, step: 1, integer: true },
+  noiseWarp: { min: 0, max: 2, step: 0.05 },
+  riverThreshold: { min: 0.05, max: 2, step: 0.05 },
+  equatorTemperature: { min: 0, max: 40, step: 1 },
+  poleTemperature: { min: -50, max: 10, step: 1 },
+  lapseRate: { min: 0, max: 10, step: 0.5 },
+  precipitationScale: { min: 0.25, max: 2, step: 0.05 }
+};
+
+/**
+ * Why a value falls outside its range, or null when it is allowed
+ */
+export function rangeProblem(value: number, range: SettingRange): string | null {
+  if (range.integer && !Number.isInteger(value)) return 'Expected a whole number';
+  if (value < range.min || value > range.max) return `Expected a value from ${range.min} to ${range.max}`;
+  return null;
+}
+
+/**
+ * Sea level a world is generated and shaded with: templates put land at a
+ * fixed height, so the seaLevel parameter only applies to blob terrain
+ */
+export function effectiveSeaLevel(params: Pick<TerrainParams, 'terrainMode' | 'seaLevel'>): number {
+  return params.terrainMode === 'template' ? TEMPLATE_SEA_LEVEL : params.seaLevel;
+}
+
+// Base noise frequencies in cycles per pixel, scaled by noiseScale
+const HEIGHT_NOISE_FREQUENCY = 0.005; // Low frequency: broad height variation
+const EDGE_NOISE_FREQUENCY = 0.02; // Higher frequency: coastline irregularity
+const SHARPNESS_NOISE_FREQUENCY = 0.01; // Mid frequency: rough patches scaled by sharpness
+const SHARPNESS_NOISE_OFFSET = 1000; // Samples away from the other layers so they don't line up
+
 interface Blob {
   x: number;
   y: number;
@@ -25,17 +123,60 @@ export interface TerrainGenerationResult {
 }
 
 /**
- * Generate terrain using the blob algorithm with improved edge protection
- * Now uses separate blob radius and water margin for better control
+ * Generate terrain using either the blob algorithm or a heightmap template
+ * All randomness is drawn from the supplied generator so results are reproducible
  */
 export function generateTerrain(
   mesh: VoronoiMesh,
   params: TerrainParams,
   width: number,
-  height: number
+  height: number,
+  random: RandomFn
 ): TerrainGenerationResult {
-  const { cells } = mesh;
-  const { numBlobs, mainPeakHeight, secondaryPeakHeightRange, falloff, sharpness, continentMode, waterMargin } = params;
+  const { cells, graph } = mesh;
+  
+  if (params.terrainMode === 'template') {
+    runTemplate(graph, parseTemplate(HEIGHTMAP_TEMPLATES[params.template].source), width, height, random);
+  } else {
+    generateBlobHeights(graph, params, width, height, random);
+  }
+  const heights = graph.heights;
+  
+  // Copy heights onto the cell records and find min/max in one pass
+  // (spreading 100k heights into Math.min would overflow the call stack)
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+  for (let i = 0; i < graph.size; i++) {
+    cells[i].height = heights[i];
+    minHeight = Math.min(minHeight, heights[i]);
+    maxHeight = Math.max(maxHeight, heights[i]);
+  }
+  
+  if (maxHeight <= 0) {
+    console.warn(`⚠️ No non-zero heights found! All cells have height 0.`);
+  }
+  
+  return {
+    cells,
+    minHeight,
+    maxHeight
+  };
+}
+
+/**
+ * Blob algorithm with improved edge protection
+ * Now uses separate blob radius and water margin for better control
+ * Writes raw heights into graph.heights
+ */
+function generateBlobHeights(
+  graph: MeshGraph,
+  params: TerrainParams,
+  width: number,
+  height: number,
+  random: RandomFn
+): void {
+  const { numBlobs, mainPeakHeight, secondaryPeakHeightRange, falloff, sharpness, continentMode, waterMargin, noiseScale, noiseAmplitude } = params;
+  const sampleNoise = createTerrainNoise(params, random);
   
   // Calculate safe zone parameters with separate blob radius and water margin
   const MAX_BLOB_RADIUS = Math.min(width, height) * 0.15; // 15% of smaller dimension
@@ -43,13 +184,9 @@ export function generateTerrain(
   const blobRadius = effectiveRadius; // Blob influence radius
   const totalMargin = blobRadius + waterMargin; // Total safe zone
   
-  console.log(`Canvas dimensions: ${width}x${height}`);
-  console.log(`Blob radius: ${blobRadius.toFixed(1)}px, Water margin: ${waterMargin.toFixed(1)}px`);
-  console.log(`Total margin: ${totalMargin.toFixed(1)}px`);
-  console.log(`Continent mode: ${continentMode ? 'enabled' : 'disabled'}`);
-  
   // Reset all heights to 0
-  cells.forEach(cell => cell.height = 0);
+  const heights = graph.heights;
+  heights.fill(0);
   
   // Adjust parameters for continental mode
   const effectiveNumBlobs = continentMode ? Math.max(1, Math.min(3, numBlobs)) : numBlobs;
@@ -59,20 +196,20 @@ export function generateTerrain(
   const blobs: Blob[] = [];
   
   // Main blob
-  const mainBlob = generateRandomBlobInSafeZone(width, height, totalMargin, blobRadius, mainPeakHeight);
+  const mainBlob = generateRandomBlobInSafeZone(width, height, totalMargin, blobRadius, mainPeakHeight, random);
   blobs.push(mainBlob);
   
   // Secondary blobs (fewer in continental mode) with varied radii
   for (let i = 1; i < effectiveNumBlobs; i++) {
     const peakHeight = secondaryPeakHeightRange[0] + 
-      Math.random() * (secondaryPeakHeightRange[1] - secondaryPeakHeightRange[0]);
+      random() * (secondaryPeakHeightRange[1] - secondaryPeakHeightRange[0]);
     
     // Vary blob radius for more irregular shapes
     const minRadius = blobRadius * 0.6; // 60% of max radius
     const maxRadius = blobRadius * 1.2; // 120% of max radius
-    const variedRadius = minRadius + Math.random() * (maxRadius - minRadius);
+    const variedRadius = minRadius + random() * (maxRadius - minRadius);
     
-    const blob = generateRandomBlobInSafeZone(width, height, totalMargin, variedRadius, peakHeight);
+    const blob = generateRandomBlobInSafeZone(width, height, totalMargin, variedRadius, peakHeight, random);
     blobs.push(blob);
   }
   
@@ -82,15 +219,25 @@ export function generateTerrain(
   const mapDiagonal = Math.sqrt(width * width + height * height);
   
   // Apply blob heights to all cells - only within blobRadius, no edge masking yet
-  cells.forEach(cell => {
-    const [cx, cy] = cell.centroid;
+  for (let i = 0; i < graph.size; i++) {
+    const cx = graph.x[i];
+    const cy = graph.y[i];
     
     // 1) Compute raw height from all blobs (only within blobRadius)
+    const edgeNoise = noiseAmplitude > 0
+      ? sampleNoise(cx * EDGE_NOISE_FREQUENCY * noiseScale, cy * EDGE_NOISE_FREQUENCY * noiseScale) * noiseAmplitude
+      : 0;
+    const roughness = sharpness > 0
+      ? sampleNoise(
+        cx * SHARPNESS_NOISE_FREQUENCY * noiseScale + SHARPNESS_NOISE_OFFSET,
+        cy * SHARPNESS_NOISE_FREQUENCY * noiseScale + SHARPNESS_NOISE_OFFSET
+      )
+      : 0;
     let rawHeight = 0;
     for (const blob of blobs) {
       const distance = Math.sqrt((cx - blob.x) ** 2 + (cy - blob.y) ** 2);
       if (distance <= blob.radius) { // Only apply blob contribution within radius
-        const blobHeight = calculateBlobHeight(distance, blob.radius, blob.height, effectiveFalloff, sharpness, cx, cy);
+        const blobHeight = calculateBlobHeight(distance, blob.radius, blob.height, effectiveFalloff, sharpness, roughness, edgeNoise);
         rawHeight = Math.max(rawHeight, blobHeight);
       }
     }
@@ -106,43 +253,15 @@ export function generateTerrain(
     }
     
     // 3) Store raw height - no edge masking yet, preserve true land geometry
-    cell.height = rawHeight;
+    heights[i] = rawHeight;
     
-    // 4) Apply noise jitter for natural coastline variation (continental mode only)
-    if (continentMode && rawHeight > 0) {
-      const noiseValue = simpleNoise2D(cx * 0.005, cy * 0.005); // Low-frequency noise
-      const jitterFactor = 0.5 + 0.5 * noiseValue; // 50-100% of height (increased from 80-100%)
-      cell.height = rawHeight * jitterFactor;
+    // 4) Modulate height with low-frequency noise for natural coastline variation
+    if (noiseAmplitude > 0 && rawHeight > 0) {
+      const noiseValue = sampleNoise(cx * HEIGHT_NOISE_FREQUENCY * noiseScale, cy * HEIGHT_NOISE_FREQUENCY * noiseScale);
+      const jitterFactor = 1 - noiseAmplitude * (0.5 - 0.5 * noiseValue); // (1 - amplitude) to 100% of height
+      heights[i] = rawHeight * jitterFactor;
     }
-  });
-  
-  // Find min/max heights
-  const heights = cells.map(cell => cell.height);
-  const minHeight = Math.min(...heights);
-  const maxHeight = Math.max(...heights);
-  
-  // Debug height distribution
-  const nonZeroHeights = heights.filter(h => h > 0);
-  if (nonZeroHeights.length > 0) {
-    const sortedHeights = nonZeroHeights.sort((a, b) => a - b);
-    const percentile10 = sortedHeights[Math.floor(sortedHeights.length * 0.1)];
-    const percentile25 = sortedHeights[Math.floor(sortedHeights.length * 0.25)];
-    const percentile50 = sortedHeights[Math.floor(sortedHeights.length * 0.5)];
-    const percentile75 = sortedHeights[Math.floor(sortedHeights.length * 0.75)];
-    const percentile90 = sortedHeights[Math.floor(sortedHeights.length * 0.9)];
-    
-    console.log(`Height distribution: min=${minHeight.toFixed(3)}, max=${maxHeight.toFixed(3)}`);
-    console.log(`Non-zero heights: ${nonZeroHeights.length}/${heights.length} cells`);
-    console.log(`Percentiles: 10%=${percentile10.toFixed(3)}, 25%=${percentile25.toFixed(3)}, 50%=${percentile50.toFixed(3)}, 75%=${percentile75.toFixed(3)}, 90%=${percentile90.toFixed(3)}`);
-  } else {
-    console.warn(`⚠️ No non-zero heights found! All cells have height 0.`);
   }
-  
-  return {
-    cells,
-    minHeight,
-    maxHeight
-  };
 }
 
 /**
@@ -154,35 +273,46 @@ function generateRandomBlobInSafeZone(
   height: number,
   margin: number,
   maxRadius: number,
-  peakHeight: number
+  peakHeight: number,
+  random: RandomFn
 ): Blob {
-  const radius = Math.random() * maxRadius;
+  const radius = random() * maxRadius;
   
   // Add some randomness to positioning for more irregular continental shapes
   const positionJitter = maxRadius * 0.3; // 30% of radius for position variation
-  const jitterX = (Math.random() - 0.5) * positionJitter;
-  const jitterY = (Math.random() - 0.5) * positionJitter;
+  const jitterX = (random() - 0.5) * positionJitter;
+  const jitterY = (random() - 0.5) * positionJitter;
   
-  const x = margin + Math.random() * (width - 2 * margin) + jitterX;
-  const y = margin + Math.random() * (height - 2 * margin) + jitterY;
+  const x = margin + random() * (width - 2 * margin) + jitterX;
+  const y = margin + random() * (height - 2 * margin) + jitterY;
   
   return { x, y, radius, height: peakHeight };
 }
 
 /**
- * Simple 2D noise function for coastline jitter
- * Creates natural, irregular continental outlines
+ * Build the terrain noise sampler from the noise parameters:
+ * seeded simplex → optional domain warp → fBm or ridged octaves
+ * Returns values in [-1, 1]
  */
-function simpleNoise2D(x: number, y: number): number {
-  // Simple hash-based noise for natural coastline variation
-  const hash = (x * 12.9898 + y * 78.233) % 1;
-  return Math.sin(hash * Math.PI * 2) * 0.5 + 0.5; // Returns 0-1
+function createTerrainNoise(params: TerrainParams, random: RandomFn): (x: number, y: number) => number {
+  const noise = createNoise2D(random);
+  const fractal = { octaves: Math.max(1, Math.round(params.noiseOctaves)), lacunarity: 2, gain: 0.5 };
+
+  return (x: number, y: number) => {
+    const [wx, wy] = domainWarp(noise, x, y, params.noiseWarp);
+    return params.noiseRidged
+      ? ridged(noise, wx, wy, fractal) * 2 - 1
+      : fbm(noise, wx, wy, fractal);
+  };
 }
 
 /**
  * Calculate blob height at a given distance from blob center
  * Updated to work with higher falloff values for continental generation
- * Now includes distance perturbation for natural coastline variation
+ * Now includes distance perturbation for natural coastline variation:
+ * edgeNoise (already scaled by noise amplitude) shifts the distance by that fraction
+ * roughness is coherent noise in [-1, 1] at the cell, scaled by sharpness, so
+ * neighboring cells vary together instead of speckling
  */
 function calculateBlobHeight(
   distance: number,
@@ -190,18 +320,17 @@ function calculateBlobHeight(
   peakHeight: number,
   falloff: number,
   sharpness: number,
-  cx?: number, // Optional coordinates for noise jitter
-  cy?: number
+  roughness: number,
+  edgeNoise: number = 0
 ): number {
   if (distance > radius) return 0;
   
   // Calculate base height using falloff
   let normalizedDistance = distance / radius;
   
-  // Apply noise jitter to distance for natural coastline variation (continental mode only)
-  if (cx !== undefined && cy !== undefined && falloff >= 2.0) {
-    const noise = simpleNoise2D(cx * 0.02, cy * 0.02); // Higher-frequency noise
-    const perturb = 1 + (noise - 0.5) * 1.0; // ±50% distance shift
+  // Apply noise to distance for natural coastline variation
+  if (edgeNoise !== 0) {
+    const perturb = 1 + edgeNoise; // ±amplitude distance shift
     const perturbedDistance = Math.min(radius, distance * perturb);
     normalizedDistance = perturbedDistance / radius;
   }
@@ -216,15 +345,15 @@ function calculateBlobHeight(
     baseHeight = peakHeight * Math.pow(falloff, normalizedDistance * 10);
   }
   
-  // Apply sharpness (randomness) - reduced for continental mode
+  // Apply sharpness (roughness) - reduced for continental mode
   const effectiveSharpness = falloff >= 2.0 ? sharpness * 0.5 : sharpness;
-  const randomFactor = 1 + (Math.random() - 0.5) * effectiveSharpness * 2;
+  const roughnessFactor = 1 + roughness * effectiveSharpness;
   
-  return baseHeight * randomFactor;
+  return baseHeight * roughnessFactor;
 }
 
 /**
- * Apply sea level threshold to create flat ocean and classify land/water
+ * Apply sea level threshold to classify land/water
  * Also forces any cell touching the map border to be water
  * Now uses adaptive sea level for better land/water ratios
  */
@@ -236,25 +365,12 @@ export function applySeaLevel(
   // Calculate adaptive sea level based on actual height distribution
   const adaptiveSeaLevel = calculateAdaptiveSeaLevel(cells, seaLevel, continentMode);
   
-  let landCells = 0;
-  let waterCells = 0;
-  
   cells.forEach(cell => {
     // Use adaptive sea level for classification
+    // Water keeps its generated height, the terrain under the sea, until
+    // applyBathymetry() shapes the sea floor
     cell.isLand = cell.height > adaptiveSeaLevel;
-    
-    if (cell.isLand) {
-      landCells++;
-    } else {
-      waterCells++;
-      cell.height = 0; // Set water cells to 0 height
-    }
   });
-  
-  console.log(`Sea level classification: ${landCells} land cells, ${waterCells} water cells`);
-  console.log(`Adaptive sea level: ${adaptiveSeaLevel.toFixed(3)} (target: ${seaLevel.toFixed(3)})`);
-  console.log(`Land coverage: ${((landCells / cells.length) * 100).toFixed(1)}%`);
-  console.log(`Edge masking ensures no land at map borders`);
 } 
 
 /**
@@ -269,9 +385,6 @@ function calculateAdaptiveSeaLevel(
   const heights = cells.map(cell => cell.height).filter(h => h > 0);
   if (heights.length === 0) return targetSeaLevel;
   
-  const maxHeight = Math.max(...heights);
-  const meanHeight = heights.reduce((sum, h) => sum + h, 0) / heights.length;
-  
   // For continental mode, use a lower sea level to ensure more land
   if (continentMode) {
     // Use 25th percentile of heights to ensure ~25% land coverage
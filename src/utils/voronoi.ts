@@ -1,5 +1,13 @@
 import * as d3 from 'd3';
+import type { RandomFn } from './random';
+import { buildMeshGraph, cellNeighbors, type MeshGraph } from './mesh';
+import { poissonDiskPoints, relaxPoints } from './sampling';
+import type { SettingRange } from './terrain';
 
+/**
+ * A Voronoi cell record
+ * Cell arrays are always id-indexed: cells[i].id === i
+ */
 export interface Cell {
   id: number;
   centroid: [number, number];
@@ -12,21 +20,42 @@ export interface Cell {
 
 export interface VoronoiMesh {
   cells: Cell[];
+  graph: MeshGraph;
   width: number;
   height: number;
 }
 
+export type PointDistribution = 'jittered' | 'poisson';
+
+export interface MeshOptions {
+  distribution: PointDistribution; // Base sampling strategy
+  relaxIterations: number; // Lloyd relaxation passes applied afterwards (0 = none)
+}
+
+export const DEFAULT_MESH_OPTIONS: MeshOptions = {
+  distribution: 'jittered',
+  relaxIterations: 0
+};
+
+export const MESH_OPTION_RANGES: Record<'relaxIterations', SettingRange> = {
+  relaxIterations: { min: 0, max: 5, step: 1, integer: true }
+};
+
+// Point counts offered in the UI; the CLI and world files may go beyond them
+export const NUM_POINTS_RANGE: SettingRange = { min: 1000, max: 100000, step: 1000, integer: true };
+
 /**
  * Generate evenly distributed points using jittered grid sampling
+ * Jitter is centered on each grid cell so no point can leave the map
  */
 export function generatePoints(
   width: number,
   height: number,
-  numPoints: number
+  numPoints: number,
+  random: RandomFn
 ): [number, number][] {
   const points: [number, number][] = [];
-  const cols = Math.ceil(Math.sqrt(numPoints * (width / height)));
-  const rows = Math.ceil(numPoints / cols);
+  const { cols, rows } = jitteredGrid(width, height, numPoints);
   
   const cellWidth = width / cols;
   const cellHeight = height / rows;
@@ -34,71 +63,128 @@ export function generatePoints(
   for (let i = 0; i < rows; i++) {
     for (let j = 0; j < cols; j++) {
       // Add jitter to avoid perfect grid
-      const x = j * cellWidth + (Math.random() - 0.5) * cellWidth * 0.8;
-      const y = i * cellHeight + (Math.random() - 0.5) * cellHeight * 0.8;
+      const x = (j + 0.5) * cellWidth + (random() - 0.5) * cellWidth * 0.8;
+      const y = (i + 0.5) * cellHeight + (random() - 0.5) * cellHeight * 0.8;
       
-      // Ensure points stay within bounds
-      if (x >= 0 && x < width && y >= 0 && y < height) {
-        points.push([x, y]);
-      }
+      points.push([x, y]);
     }
   }
   
   return points;
 }
 
+function jitteredGrid(width: number, height: number, numPoints: number): { cols: number; rows: number } {
+  const cols = Math.ceil(Math.sqrt(numPoints * (width / height)));
+  return { cols, rows: Math.ceil(numPoints / cols) };
+}
+
+/**
+ * Range of cell counts a mesh sampled for numPoints can have
+ * Jittered grids round up to whole rows and columns; Poisson sampling lands
+ * within a few percent of the requested count
+ */
+export function meshCellCountRange(
+  width: number,
+  height: number,
+  numPoints: number,
+  distribution: PointDistribution
+): { min: number; max: number } {
+  if (distribution === 'poisson') {
+    return { min: Math.floor(numPoints * 0.8), max: Math.ceil(numPoints * 1.2) + 4 };
+  }
+  const { cols, rows } = jitteredGrid(width, height, numPoints);
+  return { min: cols * rows, max: cols * rows };
+}
+
+/**
+ * Sample mesh sites with the selected distribution, then optionally relax them
+ */
+function sampleMeshPoints(
+  width: number,
+  height: number,
+  numPoints: number,
+  random: RandomFn,
+  options: MeshOptions
+): [number, number][] {
+  const points = options.distribution === 'poisson'
+    ? poissonDiskPoints(width, height, numPoints, random)
+    : generatePoints(width, height, numPoints, random);
+  
+  return relaxPoints(points, width, height, options.relaxIterations);
+}
+
 /**
  * Generate Voronoi diagram from points and convert to our cell format
  */
 export function generateVoronoiMesh(
   width: number,
   height: number,
-  numPoints: number
+  numPoints: number,
+  random: RandomFn,
+  options: MeshOptions = DEFAULT_MESH_OPTIONS
 ): VoronoiMesh {
-  const points = generatePoints(width, height, numPoints);
-  
+  const points = sampleMeshPoints(width, height, numPoints, random, options);
+  return buildVoronoiMesh(points, width, height);
+}
+
+/**
+ * Build the mesh for a fixed set of sites (e.g. points restored from a saved world)
+ */
+export function buildVoronoiMesh(points: [number, number][], width: number, height: number): VoronoiMesh {
   // Create Delaunay triangulation
   const delaunay = d3.Delaunay.from(points);
   
   // Get Voronoi diagram
   const voronoi = delaunay.voronoi([0, 0, width, height]);
   
-  // Convert to our cell format
-  const cells: Cell[] = [];
+  // Neighbors come from the CSR graph built off the Delaunay half-edges
+  const graph = buildMeshGraph(points, delaunay);
+  
+  // Convert to our cell format - one cell per point so ids match indices
+  const cells: Cell[] = new Array(points.length);
   
   for (let i = 0; i < points.length; i++) {
     const polygon = voronoi.cellPolygon(i);
-    if (polygon) {
-      // Get neighbors from Delaunay triangulation
-      const neighbors: number[] = [];
-      const triangles = delaunay.triangles;
-      
-      // Find all triangles that contain this point
-      for (let j = 0; j < triangles.length; j += 3) {
-        if (triangles[j] === i || triangles[j + 1] === i || triangles[j + 2] === i) {
-          // Add the other two points in this triangle as neighbors
-          for (let k = 0; k < 3; k++) {
-            const pointIndex = triangles[j + k];
-            if (pointIndex !== i && !neighbors.includes(pointIndex)) {
-              neighbors.push(pointIndex);
-            }
-          }
-        }
-      }
-      
-      cells.push({
-        id: i,
-        centroid: points[i],
-        polygon: polygon as [number, number][],
-        neighbors,
-        height: 0
-      });
-    }
+    
+    cells[i] = {
+      id: i,
+      centroid: points[i],
+      polygon: polygon ? (polygon as [number, number][]) : [],
+      neighbors: Array.from(cellNeighbors(graph, i)),
+      height: 0
+    };
   }
   
   return {
     cells,
+    graph,
     width,
     height
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Cell containing (x, y): the one with the nearest site
+ * Walks the Delaunay neighbors downhill in distance from startId, which always
+ * reaches the nearest site; start from the last result when tracking a pointer
+ */
+export function findCell(cells: Cell[], x: number, y: number, startId: number = 0): Cell | undefined {
+  let current = cells[startId] ?? cells[0];
+  if (!current) return undefined;
+
+  const distance = (cell: Cell) => (cell.centroid[0] - x) ** 2 + (cell.centroid[1] - y) ** 2;
+  let best = distance(current);
+
+  for (;;) {
+    let next: Cell | undefined;
+    for (const neighborId of current.neighbors) {
+      const d = distance(cells[neighborId]);
+      if (d < best) {
+        best = d;
+        next = cells[neighborId];
+      }
+    }
+    if (!next) return current;
+    current = next;
+  }
+}
@@ -0,0 +1,381 @@
+import { buildVoronoiMesh, generateVoronoiMesh, type Cell, type MeshOptions, type VoronoiMesh } from './voronoi';
+import { generateTerrain, applySeaLevel, effectiveSeaLevel, type TerrainParams } from './terrain';
+import { applyColorsToCells, applyLakeColors } from './color';
+import { applyBathymetry, seaSurfaceHeight } from './bathymetry';
+import {
+  findCoastalEdges,
+  markCoastalCells,
+  labelFeatures,
+  assignFeatureIds,
+  buildCoastlinePaths,
+  type CoastlineDiagnostic,
+  type Feature
+} from './coastline';
+import { nameFeatures } from './names';
+import { createRandom } from './random';
+import { meshGraphFromCells, syncCellState } from './mesh';
+import { findDepressionLakeCells, generateHydrology, type River } from './hydrology';
+import { generateClimate } from './climate';
+import { assignBiomes } from './biomes';
+
+export interface WorldOptions {
+  width: number;
+  height: number;
+  numPoints: number;
+  seed: string;
+  meshOptions: MeshOptions;
+  params: TerrainParams;
+}
+
+export interface WorldStats {
+  cellCount: number;
+  landCells: number;
+  waterCells: number;
+  coastalCells: number;
+  landCoverage: number; // Fraction of cells that are land (0-1)
+  oceanCount: number;
+  lakeCount: number;
+  saltLakeCount: number; // Closed basins with no outlet
+  depressionLakeCells: number; // Land cells flooded to form lakes in closed depressions
+  islandCount: number;
+  removedIslands: number; // Tiny islands flooded during post-processing
+  carvedCells: number; // Land cells forced to water by the border margin
+  riverCount: number;
+  openCoastlines: number; // Coastline chains that couldn't be closed into rings
+  minHeight: number;
+  maxHeight: number;
+}
+
+export interface World extends WorldOptions {
+  cells: Cell[];
+  features: Feature[];
+  rivers: River[];
+  stats: WorldStats;
+}
+
+/**
+ * Pipeline stages in execution order, used for progress reporting
+ */
+export const GENERATION_STAGES = [
+  { id: 'mesh', label: 'Building Voronoi mesh' },
+  { id: 'terrain', label: 'Shaping terrain' },
+  { id: 'seaLevel', label: 'Applying sea level' },
+  { id: 'features', label: 'Labeling features' },
+  { id: 'bathymetry', label: 'Shaping the sea floor' },
+  { id: 'coastlines', label: 'Tracing coastlines' },
+  { id: 'climate', label: 'Simulating climate' },
+  { id: 'rivers', label: 'Routing rivers' },
+  { id: 'biomes', label: 'Assigning biomes' },
+  { id: 'colors', label: 'Coloring cells' }
+] as const;
+
+export type GenerationStage = typeof GENERATION_STAGES[number]['id'];
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  label: string;
+  index: number; // Zero-based position of the stage in GENERATION_STAGES
+  total: number;
+}
+
+export type ProgressCallback = (progress: GenerationProgress) => void;
+
+type StageReporter = (stage: GenerationStage) => void;
+
+/**
+ * Everything a world can be rebuilt from: mesh sites, final heights and
+ * land flags, and labeled features
+ * Coastlines, climate, rivers, biomes and colors are derived from these
+ */
+export interface WorldLayout {
+  points: [number, number][];
+  heights: number[];
+  land: boolean[];
+  features: Feature[];
+}
+
+// Counters from post-processing that can't be recomputed from the final layout
+export type PostProcessStats = Pick<WorldStats, 'removedIslands' | 'carvedCells' | 'depressionLakeCells'>;
+
+/**
+ * Run the full generation pipeline without any UI:
+ * mesh → terrain → sea level → features → tiny island removal →
+ * border carving → depression lakes → bathymetry → coastlines → climate → rivers/lakes →
+ * biomes → colors
+ * The result depends only on the options, so the same options always
+ * produce the same world. onProgress is called as each stage starts
+ */
+export function generateWorld(options: WorldOptions, onProgress?: ProgressCallback): World {
+  const { width, height, numPoints, seed, meshOptions, params } = options;
+
+  const reportStage: StageReporter = stage => {
+    const index = GENERATION_STAGES.findIndex(s => s.id === stage);
+    const { label } = GENERATION_STAGES[index];
+    onProgress?.({ stage, label, index, total: GENERATION_STAGES.length });
+  };
+
+  // Generate Voronoi mesh
+  reportStage('mesh');
+  const mesh = generateVoronoiMesh(width, height, numPoints, createRandom(seed, 'mesh'), meshOptions);
+
+  // Generate terrain
+  reportStage('terrain');
+  const terrainResult = generateTerrain(mesh, params, width, height, createRandom(seed, 'terrain'));
+  const { cells } = terrainResult;
+  // The sea floor is shaped from the terrain generated under the water
+  const underlying = Float64Array.from(cells, cell => cell.height);
+
+  // Apply sea level and classify land/water
+  reportStage('seaLevel');
+  // Adaptive sea level only applies to blob continents; templates are designed around a fixed level
+  const seaLevel = effectiveSeaLevel(params);
+  applySeaLevel(cells, seaLevel, params.terrainMode === 'blob' && params.continentMode);
+
+  // Label features so tiny islands can be found
+  reportStage('features');
+  syncCellState(mesh.graph, cells);
+  const generatedFeatures = labelFeatures(mesh.graph, width, height);
+  assignFeatureIds(cells, generatedFeatures);
+
+  // Post-process: Remove tiny islands
+  const removedIslands = removeTinyIslands(cells, generatedFeatures);
+
+  // Border carving: Carve out water border before the final coastline pass
+  // so coastlines are computed from the true, carved land geometry
+  const carvedCells = carveBorder(cells, width, height, params.waterMargin);
+
+  // Closed depressions would hold standing water, so flood them before the final labeling
+  let depressionLakeCells = 0;
+  if (params.depressionLakes) {
+    syncCellState(mesh.graph, cells);
+    for (const cellId of findDepressionLakeCells(mesh.graph)) {
+      cells[cellId].isLand = false;
+      cells[cellId].height = 0;
+      depressionLakeCells++;
+    }
+  }
+  syncCellState(mesh.graph, cells);
+  const features = labelFeatures(mesh.graph, width, height);
+  assignFeatureIds(cells, features);
+  nameFeatures(features, cells, seed);
+
+  // Water depth follows the final coast, so it comes after every land/water change;
+  // cells flooded above wait at height 0, below all land, until here
+  reportStage('bathymetry');
+  applyBathymetry(cells, underlying, seaSurfaceHeight(cells, seaLevel), width, height);
+
+  // Compute coastlines on the carved terrain
+  reportStage('coastlines');
+  markCoastalCells(cells);
+  const coastalSegments = findCoastalEdges(mesh.graph, cells, width, height);
+  reportOpenCoastlines(buildCoastlinePaths(coastalSegments, features, cells));
+
+  const rivers = deriveWorldLayers(mesh, features, params, reportStage);
+
+  return {
+    ...options,
+    cells,
+    features,
+    rivers,
+    stats: computeWorldStats(cells, features, rivers, { removedIslands, carvedCells, depressionLakeCells })
+  };
+}
+
+/**
+ * Rebuild a world from a saved layout without rerunning terrain generation
+ * The derived layers are recomputed exactly as generateWorld() computes them
+ */
+export function restoreWorld(options: WorldOptions, layout: WorldLayout, postProcess: PostProcessStats): World {
+  const { width, height, params } = options;
+  const mesh = buildVoronoiMesh(layout.points, width, height);
+  const { cells } = mesh;
+
+  cells.forEach(cell => {
+    cell.height = layout.heights[cell.id];
+    cell.isLand = layout.land[cell.id];
+  });
+  assignFeatureIds(cells, layout.features);
+  syncCellState(mesh.graph, cells);
+  // Files saved before water kept its depth store every water cell at 0
+  if (cells.every(cell => cell.isLand || cell.height === 0)) {
+    applyBathymetry(cells, layout.heights, seaSurfaceHeight(cells, effectiveSeaLevel(params)), width, height);
+  }
+  // Files may leave features unnamed; they get the names generation would give them
+  nameFeatures(layout.features, cells, options.seed);
+  markCoastalCells(cells);
+  reportOpenCoastlines(buildCoastlinePaths(findCoastalEdges(mesh.graph, cells, width, height), layout.features, cells));
+
+  const rivers = deriveWorldLayers(mesh, layout.features, params);
+
+  return {
+    ...options,
+    cells,
+    features: layout.features,
+    rivers,
+    stats: computeWorldStats(cells, layout.features, rivers, postProcess)
+  };
+}
+
+/**
+ * Recompute climate, rivers, biomes, colors and stats after the heights,
+ * land flags or features of a world were edited in place
+ * Returns a new World with a new cells array holding the same cell records,
+ * so views keyed on the array see the change
+ */
+export function refreshWorld(world: World): World {
+  const { cells, features, width, height, params, stats } = world;
+  const mesh: VoronoiMesh = { cells, graph: meshGraphFromCells(cells), width, height };
+  const rivers = deriveWorldLayers(mesh, features, params);
+
+  return {
+    ...world,
+    cells: cells.slice(),
+    rivers,
+    stats: computeWorldStats(cells, features, rivers, {
+      removedIslands: stats.removedIslands,
+      carvedCells: stats.carvedCells,
+      depressionLakeCells: stats.depressionLakeCells
+    })
+  };
+}
+
+function reportOpenCoastlines(diagnostics: CoastlineDiagnostic[]): void {
+  for (const { featureId, start, end, points } of diagnostics) {
+    console.warn(`Coastline of feature ${featureId} is not closed: ${points} points from (${start}) to (${end})`);
+  }
+}
+
+/**
+ * Stages that depend only on the final heights, land/water layout and features:
+ * climate → rivers/lakes → biomes → colors
+ * Cells must already carry their coastal flags. Returns the rivers
+ */
+function deriveWorldLayers(
+  mesh: VoronoiMesh,
+  features: Feature[],
+  params: TerrainParams,
+  reportStage: StageReporter = () => {}
+): River[] {
+  const { cells, graph, width, height } = mesh;
+  const seaLevel = effectiveSeaLevel(params);
+
+  // Keep the struct-of-arrays graph in step with the final classification
+  syncCellState(graph, cells);
+
+  // Temperature and rainfall over the final land/water layout
+  reportStage('climate');
+  const climate = generateClimate(graph, width, height, seaLevel, params);
+  cells.forEach(cell => {
+    cell.temperature = climate.temperature[cell.id];
+    cell.precipitation = climate.precipitation[cell.id];
+  });
+
+  // Route rainfall over the final land surface
+  reportStage('rivers');
+  const lakes = features.filter(feature => feature.type === 'lake');
+  const hydrology = generateHydrology(graph, lakes, params.riverThreshold, climate.precipitation);
+  cells.forEach(cell => {
+    cell.flow = hydrology.flow[cell.id];
+  });
+
+  // Classify biomes from climate, drainage and coasts
+  // Elevations are measured from the coast: painted land may sit below the nominal sea level
+  const seaSurface = seaSurfaceHeight(cells, seaLevel);
+  reportStage('biomes');
+  assignBiomes(cells, features, seaSurface);
+
+  // Apply colors
+  reportStage('colors');
+  applyColorsToCells(cells, seaLevel, seaSurface);
+  applyLakeColors(cells, lakes);
+
+  return hydrology.rivers;
+}
+
+/**
+ * Flood small interior islands (less than 1% of total cells) back into water
+ * Returns the number of islands removed
+ */
+function removeTinyIslands(cells: Cell[], features: Feature[]): number {
+  const MIN_ISLAND_CELLS = Math.floor(cells.length * 0.01); // 1% of map
+  let removedIslands = 0;
+
+  for (const feature of features) {
+    if (feature.type === 'island' && !feature.border && feature.cells.length < MIN_ISLAND_CELLS) {
+      // Too small to count as island → flood-fill those cells as water
+      for (const cellId of feature.cells) {
+        const cell = cells[cellId];
+        cell.isLand = false;
+        cell.height = 0;
+      }
+      removedIslands++;
+    }
+  }
+
+  return removedIslands;
+}
+
+/**
+ * Force every land cell within the water margin of the map edge to water
+ * Returns the number of cells carved
+ */
+function carveBorder(cells: Cell[], width: number, height: number, waterMargin: number): number {
+  let carvedCount = 0;
+
+  cells.forEach(cell => {
+    const [cx, cy] = cell.centroid;
+    if (
+      cx < waterMargin ||
+      cx > width - waterMargin ||
+      cy < waterMargin ||
+      cy > height - waterMargin
+    ) {
+      if (cell.isLand) {
+        cell.isLand = false;
+        cell.height = 0;
+        carvedCount++;
+      }
+    }
+  });
+
+  return carvedCount;
+}
+
+/**
+ * Summarize land coverage, feature and river counts and height range of a finished world
+ */
+function computeWorldStats(
+  cells: Cell[],
+  features: Feature[],
+  rivers: River[],
+  postProcess: PostProcessStats
+): WorldStats {
+  let landCells = 0;
+  let coastalCells = 0;
+  let minHeight = Infinity;
+  let maxHeight = -Infinity;
+
+  for (const cell of cells) {
+    if (cell.isLand) landCells++;
+    if (cell.isCoastal) coastalCells++;
+    minHeight = Math.min(minHeight, cell.height);
+    maxHeight = Math.max(maxHeight, cell.height);
+  }
+
+  return {
+    cellCount: cells.length,
+    landCells,
+    waterCells: cells.length - landCells,
+    coastalCells,
+    landCoverage: cells.length > 0 ? landCells / cells.length : 0,
+    oceanCount: features.filter(f => f.type === 'ocean').length,
+    lakeCount: features.filter(f => f.type === 'lake').length,
+    saltLakeCount: features.filter(f => f.lake && !f.lake.freshwater).length,
+    islandCount: features.filter(f => f.type === 'island').length,
+    ...postProcess,
+    riverCount: rivers.length,
+    openCoastlines: features.reduce((count, f) => count + (f.rings?.filter(ring => !ring.closed).length ?? 0), 0),
+    minHeight: cells.length > 0 ? minHeight : 0,
+    maxHeight: cells.length > 0 ? maxHeight : 0
+  };
+}
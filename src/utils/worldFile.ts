@@ -0,0 +1,401 @@
+import type { CoastlineRing, Feature } from './coastline';
+import {
+  DEFAULT_TERRAIN_PARAMS,
+  rangeProblem,
+  TERRAIN_PARAM_RANGES,
+  type SettingRange,
+  type TerrainParams
+} from './terrain';
+import { HEIGHTMAP_TEMPLATES } from './templates';
+import { DEFAULT_MESH_OPTIONS, MESH_OPTION_RANGES, meshCellCountRange, type MeshOptions } from './voronoi';
+import { restoreWorld, type PostProcessStats, type World, type WorldOptions } from './world';
+
+export const WORLD_FILE_FORMAT = 'fwg4-world';
+export const WORLD_FILE_VERSION = 2;
+
+/**
+ * Feature fields that are saved; lake hydrology is derived again on load
+ * Coastline rings are saved for tools reading the file, and traced again on load
+ */
+export type SavedFeature = Pick<Feature, 'id' | 'type' | 'land' | 'border' | 'name' | 'size' | 'rings' | 'cells'>;
+
+/**
+ * Saved world document
+ * Holds what can't be derived: the options, mesh sites, final heights and
+ * land flags (which may differ from what the seed produces once edited) and
+ * the labeled features with their coastline rings. Climate, rivers, biomes
+ * and colors are rebuilt on load
+ */
+export interface WorldFile {
+  format: typeof WORLD_FILE_FORMAT;
+  version: number;
+  savedAt: string; // ISO timestamp
+  options: WorldOptions;
+  points: number[]; // Flat [x0, y0, x1, y1, ...] mesh sites, one pair per cell
+  heights: number[];
+  land: number[]; // 1 for land, 0 for water
+  features: SavedFeature[];
+  postProcess: PostProcessStats;
+}
+
+/**
+ * Raised for files that aren't valid world documents
+ * path points at the offending field, e.g. "features[3].cells[12]"
+ */
+export class WorldFileError extends Error {
+  path: string;
+
+  constructor(message: string, path: string = '') {
+    super(path ? `${path}: ${message}` : message);
+    this.name = 'WorldFileError';
+    this.path = path;
+  }
+}
+
+type WorldDocument = Record<string, unknown>;
+
+/**
+ * Upgrade steps keyed by the version they upgrade from: MIGRATIONS[1] turns
+ * a version 1 document into version 2. Add a step whenever the format changes
+ */
+const MIGRATIONS: Record<number, (document: WorldDocument) => WorldDocument> = {
+  // Version 1 saved a single coastline loop per feature; it becomes the feature's one ring
+  1: document => ({
+    ...document,
+    features: Array.isArray(document.features)
+      ? document.features.map(feature => {
+        if (typeof feature !== 'object' || feature === null) return feature;
+        const { boundary, ...migrated } = feature as WorldDocument;
+        return Array.isArray(boundary) ? { ...migrated, rings: [{ points: boundary, closed: true, hole: false }] } : migrated;
+      })
+      : document.features
+  })
+};
+
+/**
+ * Capture a world as a save document
+ */
+export function serializeWorld(world: World): WorldFile {
+  const { width, height, numPoints, seed, meshOptions, params, cells, features, stats } = world;
+
+  return {
+    format: WORLD_FILE_FORMAT,
+    version: WORLD_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    options: { width, height, numPoints, seed, meshOptions, params },
+    points: cells.flatMap(cell => cell.centroid),
+    heights: cells.map(cell => cell.height),
+    land: cells.map(cell => (cell.isLand ? 1 : 0)),
+    features: features.map(({ id, type, land, border, name, size, rings, cells }) => ({
+      id, type, land, border, name, size, rings: rings?.map(({ points, closed, hole }) => ({ points, closed, hole })), cells
+    })),
+    postProcess: {
+      removedIslands: stats.removedIslands,
+      carvedCells: stats.carvedCells,
+      depressionLakeCells: stats.depressionLakeCells
+    }
+  };
+}
+
+export function worldToJSON(world: World): string {
+  return JSON.stringify(serializeWorld(world));
+}
+
+/**
+ * Parse, migrate and validate a saved world
+ * Throws WorldFileError describing the first problem found
+ */
+export function parseWorldFile(text: string): WorldFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new WorldFileError(`Not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+
+  const document = expectObject(raw, '');
+  if (document.format !== WORLD_FILE_FORMAT) {
+    throw new WorldFileError(`Not a world file (expected format "${WORLD_FILE_FORMAT}")`, 'format');
+  }
+
+  const version = expectInteger(document.version, 'version', 1);
+  if (version > WORLD_FILE_VERSION) {
+    throw new WorldFileError(
+      `Saved by a newer version of the generator (file version ${version}, supported up to ${WORLD_FILE_VERSION})`,
+      'version'
+    );
+  }
+
+  return validateWorldFile(migrate(document, version));
+}
+
+/**
+ * Load a saved world and rebuild its derived layers
+ */
+export function loadWorldFile(text: string): World {
+  return worldFromFile(parseWorldFile(text));
+}
+
+/**
+ * Rebuild a world from an already validated document
+ * The document is left untouched, so it can be restored again later
+ */
+export function worldFromFile(file: WorldFile): World {
+  const points: [number, number][] = [];
+  for (let i = 0; i < file.points.length; i += 2) {
+    points.push([file.points[i], file.points[i + 1]]);
+  }
+
+  return restoreWorld(
+    file.options,
+    {
+      points,
+      heights: file.heights,
+      land: file.land.map(flag => flag === 1),
+      features: file.features.map(feature => ({ ...feature }))
+    },
+    file.postProcess
+  );
+}
+
+function migrate(document: WorldDocument, fromVersion: number): WorldDocument {
+  let migrated = document;
+  for (let version = fromVersion; version < WORLD_FILE_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new WorldFileError(`No migration from version ${version}`, 'version');
+    migrated = { ...step(migrated), version: version + 1 };
+  }
+  return migrated;
+}
+
+function validateWorldFile(document: WorldDocument): WorldFile {
+  const options = validateOptions(expectObject(document.options, 'options'));
+  const cellCount = expectArray(document.heights, 'heights').length;
+
+  const points = expectNumberArray(document.points, 'points');
+  if (points.length !== cellCount * 2) {
+    throw new WorldFileError(`Expected ${cellCount * 2} coordinates for ${cellCount} cells, got ${points.length}`, 'points');
+  }
+
+  // A mismatched count would regenerate a different mesh from the same settings
+  const expected = meshCellCountRange(options.width, options.height, options.numPoints, options.meshOptions.distribution);
+  if (cellCount < expected.min || cellCount > expected.max) {
+    const count = expected.min === expected.max ? expected.min : `${expected.min} to ${expected.max}`;
+    throw new WorldFileError(`Expected ${count} cells for this point count, got ${cellCount}`, 'options.numPoints');
+  }
+
+  const land = expectNumberArray(document.land, 'land');
+  if (land.length !== cellCount) {
+    throw new WorldFileError(`Expected ${cellCount} flags, got ${land.length}`, 'land');
+  }
+  land.forEach((flag, i) => {
+    if (flag !== 0 && flag !== 1) throw new WorldFileError('Expected 0 or 1', `land[${i}]`);
+  });
+
+  const postProcess = expectObject(document.postProcess, 'postProcess');
+
+  return {
+    format: WORLD_FILE_FORMAT,
+    version: WORLD_FILE_VERSION,
+    savedAt: typeof document.savedAt === 'string' ? document.savedAt : '',
+    options,
+    points,
+    heights: expectNumberArray(document.heights, 'heights'),
+    land,
+    features: validateFeatures(expectArray(document.features, 'features'), cellCount),
+    postProcess: {
+      removedIslands: expectInteger(postProcess.removedIslands, 'postProcess.removedIslands', 0),
+      carvedCells: expectInteger(postProcess.carvedCells, 'postProcess.carvedCells', 0),
+      depressionLakeCells: expectInteger(postProcess.depressionLakeCells, 'postProcess.depressionLakeCells', 0)
+    }
+  };
+}
+
+function validateOptions(options: WorldDocument): WorldOptions {
+  const meshOptions = validateAgainstDefaults(
+    expectObject(options.meshOptions, 'options.meshOptions'),
+    DEFAULT_MESH_OPTIONS,
+    MESH_OPTION_RANGES,
+    'options.meshOptions'
+  );
+  expectOneOf(meshOptions.distribution, ['jittered', 'poisson'], 'options.meshOptions.distribution');
+
+  const params = validateAgainstDefaults(
+    expectObject(options.params, 'options.params'),
+    DEFAULT_TERRAIN_PARAMS,
+    TERRAIN_PARAM_RANGES,
+    'options.params'
+  );
+  expectOneOf(params.terrainMode, ['blob', 'template'], 'options.params.terrainMode');
+  expectOneOf(params.template, Object.keys(HEIGHTMAP_TEMPLATES), 'options.params.template');
+
+  if (typeof options.seed !== 'string') throw new WorldFileError('Expected a string', 'options.seed');
+
+  return {
+    width: expectPositive(options.width, 'options.width'),
+    height: expectPositive(options.height, 'options.height'),
+    numPoints: expectInteger(options.numPoints, 'options.numPoints', 1),
+    seed: options.seed,
+    meshOptions: meshOptions as MeshOptions,
+    params: params as TerrainParams
+  };
+}
+
+/**
+ * Check each known field has the same type as its default and numbers lie
+ * within their ranges. Fields added after the file was written fall back to
+ * their defaults; unknown fields are dropped
+ */
+function validateAgainstDefaults<T extends object>(
+  value: WorldDocument,
+  defaults: T,
+  ranges: Partial<Record<keyof T, SettingRange>>,
+  path: string
+): T {
+  const result: WorldDocument = {};
+
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const field = value[key];
+    const fieldPath = `${path}.${key}`;
+
+    if (field === undefined) {
+      result[key] = fallback;
+    } else if (Array.isArray(fallback)) {
+      const array = expectNumberArray(field, fieldPath);
+      if (array.length !== fallback.length) {
+        throw new WorldFileError(`Expected ${fallback.length} numbers, got ${array.length}`, fieldPath);
+      }
+      array.forEach((number, i) => checkRange(number, ranges[key as keyof T], `${fieldPath}[${i}]`));
+      result[key] = array;
+    } else if (typeof field !== typeof fallback || (typeof field === 'number' && !Number.isFinite(field))) {
+      throw new WorldFileError(`Expected a ${typeof fallback}`, fieldPath);
+    } else {
+      if (typeof field === 'number') checkRange(field, ranges[key as keyof T], fieldPath);
+      result[key] = field;
+    }
+  }
+
+  return result as T;
+}
+
+/**
+ * Validate each feature, then check that ids are unique and that no cell is
+ * claimed by two features
+ */
+function validateFeatures(values: unknown[], cellCount: number): SavedFeature[] {
+  const features = values.map((value, i) => validateFeature(value, `features[${i}]`, cellCount));
+  const ids = new Map<number, number>();
+  const owners = new Int32Array(cellCount).fill(-1);
+
+  features.forEach((feature, i) => {
+    const duplicate = ids.get(feature.id);
+    if (duplicate !== undefined) {
+      throw new WorldFileError(`Duplicate feature id, also used by features[${duplicate}]`, `features[${i}].id`);
+    }
+    ids.set(feature.id, i);
+
+    feature.cells.forEach((cellId, j) => {
+      if (owners[cellId] >= 0) {
+        throw new WorldFileError(`Cell ${cellId} already belongs to features[${owners[cellId]}]`, `features[${i}].cells[${j}]`);
+      }
+      owners[cellId] = i;
+    });
+  });
+
+  return features;
+}
+
+function validateFeature(value: unknown, path: string, cellCount: number): SavedFeature {
+  const feature = expectObject(value, path);
+  const type = expectOneOf(feature.type, ['ocean', 'lake', 'island'] as const, `${path}.type`);
+
+  if (typeof feature.land !== 'boolean') throw new WorldFileError('Expected a boolean', `${path}.land`);
+  if (typeof feature.border !== 'boolean') throw new WorldFileError('Expected a boolean', `${path}.border`);
+  if (feature.name !== undefined && typeof feature.name !== 'string') {
+    throw new WorldFileError('Expected a string', `${path}.name`);
+  }
+
+  const cells = expectNumberArray(feature.cells, `${path}.cells`);
+  if (cells.length === 0) throw new WorldFileError('Expected at least one cell', `${path}.cells`);
+  cells.forEach((cellId, i) => {
+    if (!Number.isInteger(cellId) || cellId < 0 || cellId >= cellCount) {
+      throw new WorldFileError(`Expected a cell id between 0 and ${cellCount - 1}`, `${path}.cells[${i}]`);
+    }
+  });
+
+  return {
+    id: expectInteger(feature.id, `${path}.id`, 0),
+    type,
+    land: feature.land,
+    border: feature.border,
+    name: feature.name,
+    size: feature.size === undefined ? undefined : expectNumber(feature.size, `${path}.size`),
+    rings: feature.rings === undefined
+      ? undefined
+      : expectArray(feature.rings, `${path}.rings`).map((ring, i) => validateRing(ring, `${path}.rings[${i}]`)),
+    cells
+  };
+}
+
+function validateRing(value: unknown, path: string): CoastlineRing {
+  const ring = expectObject(value, path);
+  if (typeof ring.closed !== 'boolean') throw new WorldFileError('Expected a boolean', `${path}.closed`);
+  if (typeof ring.hole !== 'boolean') throw new WorldFileError('Expected a boolean', `${path}.hole`);
+
+  const points = expectArray(ring.points, `${path}.points`).map((point, i) => {
+    const pair = expectNumberArray(point, `${path}.points[${i}]`);
+    if (pair.length !== 2) throw new WorldFileError('Expected an [x, y] pair', `${path}.points[${i}]`);
+    return pair as [number, number];
+  });
+
+  return { points, closed: ring.closed, hole: ring.hole };
+}
+
+function expectObject(value: unknown, path: string): WorldDocument {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new WorldFileError('Expected an object', path);
+  }
+  return value as WorldDocument;
+}
+
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new WorldFileError('Expected an array', path);
+  return value;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new WorldFileError('Expected a number', path);
+  return value;
+}
+
+function expectPositive(value: unknown, path: string): number {
+  const number = expectNumber(value, path);
+  if (number <= 0) throw new WorldFileError('Expected a positive number', path);
+  return number;
+}
+
+function expectInteger(value: unknown, path: string, min: number): number {
+  const number = expectNumber(value, path);
+  if (!Number.isInteger(number) || number < min) {
+    throw new WorldFileError(`Expected an integer of at least ${min}`, path);
+  }
+  return number;
+}
+
+function expectNumberArray(value: unknown, path: string): number[] {
+  const array = expectArray(value, path);
+  array.forEach((item, i) => expectNumber(item, `${path}[${i}]`));
+  return array as number[];
+}
+
+function expectOneOf<T extends string>(value: unknown, allowed: readonly T[], path: string): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw new WorldFileError(`Expected one of ${allowed.map(item => `"${item}"`).join(', ')}`, path);
+  }
+  return value as T;
+}
+
+function checkRange(value: number, range: SettingRange | undefined, path: string): void {
+  const problem = range && rangeProblem(value, range);
+  if (problem) throw new WorldFileError(problem, path);
+}
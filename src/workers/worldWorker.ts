@@ -0,0 +1,21 @@
+/**
+ * Web Worker entry point: runs generateWorld() off the main thread
+ * and streams stage progress back to the page
+ */
+import { generateWorld } from '../utils/world';
+import type { WorldWorkerRequest, WorldWorkerResponse } from './worldWorkerClient';
+
+function post(message: WorldWorkerResponse): void {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<WorldWorkerRequest>) => {
+  const { options } = event.data;
+
+  try {
+    const world = generateWorld(options, progress => post({ type: 'progress', progress }));
+    post({ type: 'done', world });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,77 @@
+import type { GenerationProgress, ProgressCallback, World, WorldOptions } from '../utils/world';
+
+export interface WorldWorkerRequest {
+  options: WorldOptions;
+}
+
+export type WorldWorkerResponse =
+  | { type: 'progress'; progress: GenerationProgress }
+  | { type: 'done'; world: World }
+  | { type: 'error'; message: string };
+
+/**
+ * Rejection reason for a generation that was cancelled before it finished
+ */
+export class GenerationCancelledError extends Error {
+  constructor() {
+    super('Map generation was cancelled');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+export interface GenerationTask {
+  promise: Promise<World>;
+  cancel: () => void;
+}
+
+/**
+ * Generate a world in a dedicated Web Worker
+ * Each task owns its worker, so cancelling simply terminates it mid-stage
+ */
+export function generateWorldInWorker(options: WorldOptions, onProgress?: ProgressCallback): GenerationTask {
+  const worker = new Worker(new URL('./worldWorker.ts', import.meta.url), { type: 'module' });
+  let settled = false;
+  let rejectTask: (reason: Error) => void = () => {};
+
+  const promise = new Promise<World>((resolve, reject) => {
+    rejectTask = reject;
+
+    worker.onmessage = (event: MessageEvent<WorldWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+        case 'done':
+          settled = true;
+          worker.terminate();
+          resolve(message.world);
+          break;
+        case 'error':
+          settled = true;
+          worker.terminate();
+          reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      settled = true;
+      worker.terminate();
+      reject(new Error(event.message || 'Map generation worker failed'));
+    };
+  });
+
+  const request: WorldWorkerRequest = { options };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      settled = true;
+      worker.terminate();
+      rejectTask(new GenerationCancelledError());
+    }
+  };
+}